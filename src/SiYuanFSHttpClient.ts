@@ -1,7 +1,7 @@
 // ABOUTME: HTTP client for SiYuanFS - using semantic API wrapper
 
 import { SiYuanFSConfig, SiYuanFSFile } from './constants';
-import { SiYuanApiClient } from './siyuanApi';
+import { SiYuanApiClient, WorkspaceEntry } from './siyuanApi';
 
 export class SiYuanFSHttpClient {
     private api: SiYuanApiClient;
@@ -22,18 +22,177 @@ export class SiYuanFSHttpClient {
         return this.api.setFileContent(path, content, options);
     }
 
+    async createFile(path: string, content: string): Promise<string[]> {
+        return this.api.createFile(path, content);
+    }
+
+    async renameFile(oldPath: string, newPath: string, options?: { overwrite?: boolean }): Promise<string[]> {
+        return this.api.renameFile(oldPath, newPath, options);
+    }
+
+    async hasChildren(path: string): Promise<boolean> {
+        return this.api.hasChildDocs(path);
+    }
+
+    async exists(path: string): Promise<boolean> {
+        return this.api.documentExists(path);
+    }
+
     async deleteFile(path: string): Promise<void> {
         return this.api.removeFile(path);
     }
 
-    async createDirectory(path: string): Promise<void> {
+    async listDescendants(path: string): Promise<string[]> {
+        return this.api.listDescendantDocs(path);
+    }
+
+    async createDirectory(path: string): Promise<string[]> {
         return this.api.createDirectory(path);
     }
 
+    async renameNotebook(name: string, newName: string): Promise<void> {
+        return this.api.renameNotebook(name, newName);
+    }
+
+    async setNotebookClosed(name: string, closed: boolean): Promise<void> {
+        return this.api.setNotebookClosed(name, closed);
+    }
+
+    async removeNotebook(name: string): Promise<void> {
+        return this.api.removeNotebook(name);
+    }
+
+    async getNotebookConf(name: string): Promise<Record<string, unknown>> {
+        return this.api.getNotebookConf(name);
+    }
+
+    async setNotebookConf(name: string, conf: Record<string, unknown>): Promise<void> {
+        return this.api.setNotebookConf(name, conf);
+    }
+
+    /**
+     * Run a read-only SQL statement against the SiYuan database
+     */
+    async query<T>(stmt: string): Promise<T[]> {
+        return this.api.query<T>(stmt);
+    }
+
+    /**
+     * Run an SQL statement written by the user, without retrying it
+     */
+    async runStatement<T>(stmt: string): Promise<T[]> {
+        return this.api.runStatement<T>(stmt);
+    }
+
+    async getBlockDocumentPath(id: string): Promise<string | undefined> {
+        return this.api.getBlockDocumentPath(id);
+    }
+
+    /**
+     * Blocks and tags matching a search text, for completion
+     */
+    async searchBlockContent(text: string, limit: number): Promise<Array<{ id: string; type: string; content: string; path: string }>> {
+        return this.api.searchBlockContent(text, limit);
+    }
+
+    async searchTags(text: string, limit: number): Promise<Array<{ tag: string; path: string }>> {
+        return this.api.searchTags(text, limit);
+    }
+
+    async getBlockInfo(id: string): Promise<{ id: string; type: string; content: string; markdown: string; path: string } | undefined> {
+        return this.api.getBlockInfo(id);
+    }
+
+    /**
+     * Documents and headings matching a search text, for symbol search
+     */
+    async searchTitles(text: string, limit: number): Promise<Array<{ id: string; type: string; subtype: string; content: string; path: string; hpath: string }>> {
+        return this.api.searchTitles(text, limit);
+    }
+
+    async getDocumentId(path: string): Promise<string> {
+        return this.api.getBlockIdFromPath(path);
+    }
+
+    /**
+     * @returns The document's kramdown as stored, whatever the edit mode
+     */
+    async getKramdown(path: string): Promise<string> {
+        return this.api.getBlockKramdown(await this.api.getBlockIdFromPath(path));
+    }
+
+    async getChildBlocks(id: string): Promise<Array<{ id: string; type: string; subType?: string }>> {
+        return this.api.getChildBlocks(id);
+    }
+
+    async getDocumentBlocks(docId: string): Promise<Array<{ id: string; type: string; subtype: string; content: string; ial: string }>> {
+        return this.api.getDocumentBlocks(docId);
+    }
+
+    async foldBlock(id: string, fold: boolean): Promise<void> {
+        return this.api.foldBlock(id, fold);
+    }
+
+    async moveBlock(id: string, target: { previousId?: string; parentId?: string }): Promise<void> {
+        return this.api.moveBlock(id, target);
+    }
+
     async getFileStats(path: string): Promise<SiYuanFSFile> {
         return this.api.getFileStats(path);
     }
 
+    async getVersion(path: string): Promise<string> {
+        return this.api.getDocumentUpdated(path);
+    }
+
+    async getLatestUpdated(): Promise<string> {
+        return this.api.getLatestUpdated();
+    }
+
+    async listChangedDocs(since: string): Promise<Array<{ id: string; path: string; created: string; updated: string }>> {
+        return this.api.listDocsUpdatedSince(since);
+    }
+
+    async listDocumentPaths(): Promise<Map<string, string>> {
+        return this.api.listDocumentPaths();
+    }
+
+    invalidateDocument(id: string): void {
+        this.api.invalidateDocument(id);
+    }
+
+    async listWorkspaceDir(path: string): Promise<WorkspaceEntry[]> {
+        return this.api.readWorkspaceDir(path);
+    }
+
+    async readWorkspaceFile(path: string): Promise<Uint8Array> {
+        return this.api.getWorkspaceFile(path);
+    }
+
+    async writeWorkspaceFile(path: string, content: Uint8Array): Promise<void> {
+        return this.api.putWorkspaceFile(path, content);
+    }
+
+    async createWorkspaceDirectory(path: string): Promise<void> {
+        return this.api.putWorkspaceFile(path);
+    }
+
+    async deleteWorkspaceFile(path: string): Promise<void> {
+        return this.api.removeWorkspaceFile(path);
+    }
+
+    async renameWorkspaceFile(path: string, newPath: string): Promise<void> {
+        return this.api.renameWorkspaceFile(path, newPath);
+    }
+
+    async uploadAssets(assetsDirPath: string, files: Array<{ name: string; content: Uint8Array }>): Promise<Record<string, string>> {
+        return this.api.uploadAssets(assetsDirPath, files);
+    }
+
+    clearCache(): void {
+        this.api.clearCache();
+    }
+
     updateConfig(config: Partial<SiYuanFSConfig>): void {
         this.api.updateConfig(config);
     }
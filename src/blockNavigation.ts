@@ -0,0 +1,47 @@
+// ABOUTME: Locates SiYuan blocks in the documents shown in VS Code and opens them
+
+import * as vscode from 'vscode';
+import { SIYUANFS_SCHEME } from './constants';
+import { SiYuanFS } from './siyuanFileSystemProvider';
+import { findBlockLine, findCleanBlockLine } from './kramdown';
+
+/**
+ * @param authority Connection the block belongs to, empty for the active connection
+ * @returns URI of the document a block belongs to, or undefined if there is no such block
+ */
+export async function getBlockDocumentUri(fs: SiYuanFS, authority: string, id: string): Promise<vscode.Uri | undefined> {
+    const path = await fs.getClient(authority).getBlockDocumentPath(id);
+    return path === undefined ? undefined : vscode.Uri.from({ scheme: SIYUANFS_SCHEME, authority, path });
+}
+
+/**
+ * Find where a block starts in a document's text. Kramdown carries the block IDs, plain Markdown
+ * is matched through the server's copy and only resolves to top-level blocks.
+ * @returns Zero-based line, or undefined if the block isn't in the text, e.g. before a reload
+ */
+export async function findBlockLineInDocument(fs: SiYuanFS, document: vscode.TextDocument, id: string): Promise<number | undefined> {
+    const line = findBlockLine(document.getText(), id);
+    if (line !== undefined) {
+        return line;
+    }
+    const kramdown = await fs.getClient(document.uri.authority).getKramdown(document.uri.path);
+    return findCleanBlockLine(kramdown, document.getText(), id);
+}
+
+/**
+ * Open a document and put the cursor on one of its blocks
+ * @returns Whether the block was found, the document is shown either way
+ */
+export async function revealBlock(fs: SiYuanFS, uri: vscode.Uri, id: string): Promise<boolean> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const line = await findBlockLineInDocument(fs, document, id);
+    const editor = await vscode.window.showTextDocument(document);
+    if (line === undefined) {
+        return false;
+    }
+
+    const position = new vscode.Position(line, 0);
+    editor.selection = new vscode.Selection(position, position);
+    editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    return true;
+}
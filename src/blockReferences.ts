@@ -0,0 +1,93 @@
+// ABOUTME: Go-to-definition and hover previews for block references and embed queries in SiYuan documents
+
+import * as vscode from 'vscode';
+import { SiYuanFS } from './siyuanFileSystemProvider';
+import { findBlockRefs, findEmbedQueries, stripIals } from './kramdown';
+import { findBlockLineInDocument, getBlockDocumentUri } from './blockNavigation';
+import { isSelectStatement } from './sqlConsole';
+import { Logger } from './logger';
+
+const MAX_PREVIEW_LENGTH = 1500;
+const MAX_EMBED_RESULTS = 5;
+const MAX_RESULT_LENGTH = 100;
+
+export class BlockReferenceProvider implements vscode.DefinitionProvider, vscode.HoverProvider {
+    private logger: Logger;
+
+    constructor(private fs: SiYuanFS) {
+        this.logger = Logger.getInstance();
+    }
+
+    async provideDefinition(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Location | undefined> {
+        const ref = findBlockRefs(document.lineAt(position.line).text).find(match => this.contains(match, position));
+        if (!ref) {
+            return undefined;
+        }
+
+        try {
+            const uri = await getBlockDocumentUri(this.fs, document.uri.authority, ref.id);
+            if (!uri || token.isCancellationRequested) {
+                return undefined;
+            }
+            // A reference to a whole document has no line of its own and opens it at the top
+            const target = await vscode.workspace.openTextDocument(uri);
+            const line = await findBlockLineInDocument(this.fs, target, ref.id);
+            return new vscode.Location(uri, new vscode.Position(line ?? 0, 0));
+        } catch (error: any) {
+            this.logger.error(`Failed to find block ${ref.id}`, error);
+            return undefined;
+        }
+    }
+
+    async provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Hover | undefined> {
+        const text = document.lineAt(position.line).text;
+        const ref = findBlockRefs(text).find(match => this.contains(match, position));
+        const embed = ref ? undefined : findEmbedQueries(text).find(match => this.contains(match, position));
+        const match = ref ?? embed;
+        if (!match) {
+            return undefined;
+        }
+
+        try {
+            const client = this.fs.getClient(document.uri.authority);
+            const range = new vscode.Range(position.line, match.start, position.line, match.end);
+            const contents = new vscode.MarkdownString();
+
+            if (ref) {
+                const block = await client.getBlockInfo(ref.id);
+                if (!block) {
+                    contents.appendText(`Block ${ref.id} doesn't exist`);
+                    return new vscode.Hover(contents, range);
+                }
+                contents.appendMarkdown('*').appendText(block.path).appendMarkdown('*\n\n---\n\n');
+                const markdown = block.type === 'd' ? `# ${block.content}` : stripIals(block.markdown);
+                contents.appendMarkdown(markdown.length > MAX_PREVIEW_LENGTH ? `${markdown.substring(0, MAX_PREVIEW_LENGTH)}…` : markdown);
+            } else if (embed) {
+                if (this.fs.isReadOnlyConnection(document.uri.authority) && !isSelectStatement(embed.stmt)) {
+                    contents.appendText('Embed: not run, the connection is read-only and this is not a single SELECT statement');
+                    return new vscode.Hover(contents, range);
+                }
+                const rows = await client.runStatement<Record<string, unknown>>(embed.stmt);
+                contents.appendText(`Embed: ${rows.length} result${rows.length === 1 ? '' : 's'}`);
+                for (const row of rows.slice(0, MAX_EMBED_RESULTS)) {
+                    const content = String(row.content ?? row.id ?? JSON.stringify(row)).replace(/\s+/g, ' ');
+                    contents.appendMarkdown('\n- ').appendText(content.length > MAX_RESULT_LENGTH ? `${content.substring(0, MAX_RESULT_LENGTH)}…` : content);
+                    if (typeof row.hpath === 'string') {
+                        contents.appendMarkdown(' — *').appendText(row.hpath).appendMarkdown('*');
+                    }
+                }
+                if (rows.length > MAX_EMBED_RESULTS) {
+                    contents.appendMarkdown('\n- …');
+                }
+            }
+            return token.isCancellationRequested ? undefined : new vscode.Hover(contents, range);
+        } catch (error: any) {
+            this.logger.error('Failed to preview a block reference or embed', error);
+            return new vscode.Hover(new vscode.MarkdownString().appendText(`SiYuan: ${error.message}`));
+        }
+    }
+
+    private contains(match: { start: number; end: number }, position: vscode.Position): boolean {
+        return position.character >= match.start && position.character <= match.end;
+    }
+}
@@ -0,0 +1,61 @@
+// ABOUTME: Fails requests fast while a SiYuan server keeps being unreachable, and lets a trial request through now and then
+
+import * as vscode from 'vscode';
+
+export class CircuitBreaker {
+    private failures = 0; // consecutive failed requests
+    private openUntil = 0; // time until which requests fail without being sent
+    private trial = false; // whether a trial request is in flight
+    private cooldown: number;
+
+    /**
+     * @param name Shown in errors, e.g. the server's base URL
+     * @param threshold Consecutive failures after which the circuit opens
+     * @param baseCooldown Time the circuit stays open at first, doubled for every failed trial request
+     */
+    constructor(
+        private name: string,
+        private threshold = 3,
+        private baseCooldown = 5000,
+        private maxCooldown = 60000
+    ) {
+        this.cooldown = baseCooldown;
+    }
+
+    /**
+     * Throw while the circuit is open. Once the cooldown is over a single trial request is let
+     * through, which either closes the circuit or opens it again for longer. Every request that
+     * passes must end with recordSuccess or recordFailure.
+     */
+    check(): void {
+        const remaining = this.openUntil - Date.now();
+        if (remaining > 0) {
+            throw vscode.FileSystemError.Unavailable(`SiYuan at ${this.name} is unreachable, retrying in ${Math.ceil(remaining / 1000)}s`);
+        }
+        if (this.trial) {
+            // Hold other requests back until the trial request is done, however long it takes
+            throw vscode.FileSystemError.Unavailable(`SiYuan at ${this.name} is unreachable, checking whether it is back`);
+        }
+        if (this.failures >= this.threshold) {
+            this.trial = true;
+        }
+    }
+
+    recordSuccess(): void {
+        this.failures = 0;
+        this.openUntil = 0;
+        this.cooldown = this.baseCooldown;
+        this.trial = false;
+    }
+
+    recordFailure(): void {
+        this.failures++;
+        if (this.trial) {
+            this.trial = false;
+            this.cooldown = Math.min(this.cooldown * 2, this.maxCooldown);
+        }
+        if (this.failures >= this.threshold) {
+            this.openUntil = Date.now() + this.cooldown;
+        }
+    }
+}
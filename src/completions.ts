@@ -0,0 +1,112 @@
+// ABOUTME: Completion of block references after '((' and of tags after '#' in SiYuan documents
+
+import * as vscode from 'vscode';
+import { SiYuanFS } from './siyuanFileSystemProvider';
+import { formatBlockRef } from './kramdown';
+import { Logger } from './logger';
+
+const MAX_BLOCKS = 50;
+const MAX_TAGS = 100;
+const MAX_ANCHOR_LENGTH = 60;
+
+const BLOCK_KINDS: Record<string, vscode.CompletionItemKind> = {
+    d: vscode.CompletionItemKind.File,
+    h: vscode.CompletionItemKind.Struct,
+    c: vscode.CompletionItemKind.Snippet
+};
+
+/**
+ * Ranks completions by the order of the server's results, most recent first
+ */
+function sortText(index: number): string {
+    return index.toString().padStart(4, '0');
+}
+
+/**
+ * Suggests blocks whose content contains the text typed after '((' and inserts a ((id "anchor")) reference
+ */
+export class BlockRefCompletionProvider implements vscode.CompletionItemProvider {
+    private logger: Logger;
+
+    constructor(private fs: SiYuanFS) {
+        this.logger = Logger.getInstance();
+    }
+
+    async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.CompletionList | undefined> {
+        const line = document.lineAt(position.line).text;
+        const match = /\(\(([^()]*)$/.exec(line.substring(0, position.character));
+        if (!match) {
+            return undefined;
+        }
+
+        try {
+            const blocks = await this.fs.getClient(document.uri.authority).searchBlockContent(match[1].trim(), MAX_BLOCKS);
+            if (token.isCancellationRequested) {
+                return undefined;
+            }
+            // Auto-closed brackets after the cursor are replaced along with the typed text
+            const closing = line.startsWith('))', position.character) ? 2 : 0;
+            const range = new vscode.Range(position.line, match.index, position.line, position.character + closing);
+
+            const items = blocks.map((block, index) => {
+                const content = block.content.replace(/\s+/g, ' ').trim();
+                const item = new vscode.CompletionItem(content, BLOCK_KINDS[block.type] ?? vscode.CompletionItemKind.Reference);
+                item.detail = block.path;
+                item.insertText = formatBlockRef(block.id, content.length > MAX_ANCHOR_LENGTH ? content.substring(0, MAX_ANCHOR_LENGTH) : content);
+                item.filterText = `((${content}`;
+                item.sortText = sortText(index);
+                item.range = range;
+                return item;
+            });
+            // Every keystroke narrows the search on the server
+            return new vscode.CompletionList(items, true);
+        } catch (error: any) {
+            this.logger.error('Block reference completion failed', error);
+            return undefined;
+        }
+    }
+}
+
+/**
+ * Suggests the tags used in SiYuan after '#' and inserts them as #tag#
+ */
+export class TagCompletionProvider implements vscode.CompletionItemProvider {
+    private logger: Logger;
+
+    constructor(private fs: SiYuanFS) {
+        this.logger = Logger.getInstance();
+    }
+
+    async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.CompletionList | undefined> {
+        const line = document.lineAt(position.line).text;
+        // A tag starts a word, which leaves out the closing '#' of a tag, 'C#' and further heading markers
+        const match = /(^|[\s([])#([^#\s]*)$/.exec(line.substring(0, position.character));
+        // A lone '#' at the start of a line is more likely a heading
+        if (!match || (match[2] === '' && match.index === 0 && match[1] === '')) {
+            return undefined;
+        }
+
+        try {
+            const tags = await this.fs.getClient(document.uri.authority).searchTags(match[2], MAX_TAGS);
+            if (token.isCancellationRequested) {
+                return undefined;
+            }
+            const start = match.index + match[1].length;
+            const closing = line[position.character] === '#' ? 1 : 0;
+            const range = new vscode.Range(position.line, start, position.line, position.character + closing);
+
+            const items = tags.map((tag, index) => {
+                const item = new vscode.CompletionItem(`#${tag.tag}#`, vscode.CompletionItemKind.Keyword);
+                item.detail = tag.path;
+                item.filterText = `#${tag.tag}`;
+                item.sortText = sortText(index);
+                item.range = range;
+                return item;
+            });
+            return new vscode.CompletionList(items, true);
+        } catch (error: any) {
+            this.logger.error('Tag completion failed', error);
+            return undefined;
+        }
+    }
+}
@@ -1,11 +1,18 @@
 // ABOUTME: Configuration management for SiYuanFS connections
 
+import { SiYuanEditMode } from './constants';
+
 export interface SiYuanConnection {
     id: string;
     name: string;
     baseUrl: string;
     apiToken: string;
     timeout: number;
+    pollInterval?: number;
+    maxPollInterval?: number;
+    editMode?: SiYuanEditMode;
+    readOnly?: boolean; // refuse all changes through VS Code
+    protectedNotebooks?: string[]; // names of notebooks that can't be changed through VS Code
     isActive: boolean;
     createdAt: number;
     lastUsed?: number;
@@ -2,13 +2,17 @@
 
 import * as vscode from 'vscode';
 import { SiYuanConnection, SiYuanFSConfig, DEFAULT_CONFIG } from './config';
+import { SiYuanFSConfig as FileSystemConfig } from './constants';
 import { Logger } from './logger';
 
 export class ConfigManager {
     private static instance: ConfigManager;
     private config: SiYuanFSConfig;
     private logger: Logger;
+    private secrets?: vscode.SecretStorage;
+    private tokens = new Map<string, string>(); // connection ID -> API token, mirrors the secret storage
     private readonly CONFIG_SECTION = 'siyuanfs';
+    private readonly TOKEN_KEY_PREFIX = 'siyuanfs.apiToken.';
 
     private constructor() {
         this.logger = Logger.getInstance();
@@ -23,6 +27,72 @@ export class ConfigManager {
         return ConfigManager.instance;
     }
 
+    /**
+     * Load the API tokens from the secret storage, moving tokens still kept in settings there first.
+     * Must be awaited before connections are read.
+     * @returns Disposable that stops following token changes made in other windows
+     */
+    async initialize(secrets: vscode.SecretStorage): Promise<vscode.Disposable> {
+        this.secrets = secrets;
+
+        await this.migrateTokens();
+        for (const connection of this.config.connections.filter(conn => !this.tokens.has(conn.id))) {
+            const token = await secrets.get(this.TOKEN_KEY_PREFIX + connection.id);
+            if (token) {
+                this.tokens.set(connection.id, token);
+            }
+        }
+
+        // Keep up with tokens changed from another window
+        return secrets.onDidChange(async event => {
+            if (event.key.startsWith(this.TOKEN_KEY_PREFIX)) {
+                const id = event.key.substring(this.TOKEN_KEY_PREFIX.length);
+                const token = await secrets.get(event.key);
+                if (token) {
+                    this.tokens.set(id, token);
+                } else {
+                    this.tokens.delete(id);
+                }
+            }
+        });
+    }
+
+    /**
+     * Move tokens kept in clear text in settings to the secret storage. Each settings scope is
+     * cleaned up on its own, so a token in workspace settings is removed there and connections
+     * aren't copied from one scope into another.
+     */
+    private async migrateTokens(): Promise<void> {
+        const scopes: Array<{ config: vscode.WorkspaceConfiguration; target: vscode.ConfigurationTarget; pick: 'globalValue' | 'workspaceValue' | 'workspaceFolderValue' }> = [
+            { config: vscode.workspace.getConfiguration(this.CONFIG_SECTION), target: vscode.ConfigurationTarget.Global, pick: 'globalValue' },
+            { config: vscode.workspace.getConfiguration(this.CONFIG_SECTION), target: vscode.ConfigurationTarget.Workspace, pick: 'workspaceValue' },
+            ...(vscode.workspace.workspaceFolders ?? []).map(folder => ({
+                config: vscode.workspace.getConfiguration(this.CONFIG_SECTION, folder.uri),
+                target: vscode.ConfigurationTarget.WorkspaceFolder,
+                pick: 'workspaceFolderValue' as const
+            }))
+        ];
+
+        let moved = 0;
+        for (const { config, target, pick } of scopes) {
+            const connections = config.inspect<SiYuanConnection[]>('connections')?.[pick];
+            const plainTokens = connections?.filter(conn => conn.apiToken) ?? [];
+            if (!connections || plainTokens.length === 0) {
+                continue;
+            }
+            for (const connection of plainTokens) {
+                await this.storeToken(connection.id, connection.apiToken);
+            }
+            await config.update('connections', connections.map(conn => ({ ...conn, apiToken: '' })), target);
+            moved += plainTokens.length;
+        }
+
+        if (moved > 0) {
+            this.config = this.loadConfig();
+            this.logger.info('Moved API tokens from settings to secret storage', { connections: moved });
+        }
+    }
+
     private loadConfig(): SiYuanFSConfig {
         try {
             const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
@@ -40,7 +110,9 @@ export class ConfigManager {
     private async saveConfig(): Promise<void> {
         try {
             const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-            await config.update('connections', this.config.connections, vscode.ConfigurationTarget.Global);
+            // Tokens live in the secret storage, settings are stored in clear text and synced
+            const connections = this.config.connections.map(conn => ({ ...conn, apiToken: '' }));
+            await config.update('connections', connections, vscode.ConfigurationTarget.Global);
             await config.update('activeConnectionId', this.config.activeConnectionId, vscode.ConfigurationTarget.Global);
             this.logger.info('Configuration saved successfully');
         } catch (error) {
@@ -64,10 +136,11 @@ export class ConfigManager {
         }
 
         this.config.connections.push(newConnection);
+        await this.storeToken(newConnection.id, newConnection.apiToken);
         await this.saveConfig();
 
         this.logger.info('Connection added successfully', { id: newConnection.id, name: newConnection.name });
-        return newConnection;
+        return this.withToken(newConnection);
     }
 
     async updateConnection(id: string, updates: Partial<SiYuanConnection>): Promise<SiYuanConnection | null> {
@@ -84,9 +157,12 @@ export class ConfigManager {
             createdAt: this.config.connections[connectionIndex].createdAt // Prevent creation time changes
         };
 
+        if (updates.apiToken !== undefined) {
+            await this.storeToken(id, updates.apiToken);
+        }
         await this.saveConfig();
         this.logger.info('Connection updated successfully', { id, name: this.config.connections[connectionIndex].name });
-        return this.config.connections[connectionIndex];
+        return this.withToken(this.config.connections[connectionIndex]);
     }
 
     async deleteConnection(id: string): Promise<boolean> {
@@ -98,6 +174,7 @@ export class ConfigManager {
 
         const deletedConnection = this.config.connections[connectionIndex];
         this.config.connections.splice(connectionIndex, 1);
+        await this.storeToken(id, '');
 
         // If we deleted the active connection, set a new one as active
         if (this.config.activeConnectionId === id) {
@@ -136,15 +213,36 @@ export class ConfigManager {
         if (!this.config.activeConnectionId) {
             return null;
         }
-        return this.config.connections.find(conn => conn.id === this.config.activeConnectionId) || null;
+        return this.getConnection(this.config.activeConnectionId);
     }
 
     getAllConnections(): SiYuanConnection[] {
-        return [...this.config.connections];
+        return this.config.connections.map(conn => this.withToken(conn));
     }
 
     getConnection(id: string): SiYuanConnection | null {
-        return this.config.connections.find(conn => conn.id === id) || null;
+        const connection = this.config.connections.find(conn => conn.id === id);
+        return connection ? this.withToken(connection) : null;
+    }
+
+    /**
+     * Settings of a saved connection as used by the file system provider
+     */
+    getFileSystemConfig(id: string): FileSystemConfig | null {
+        const connection = this.getConnection(id);
+        if (!connection) {
+            return null;
+        }
+        return {
+            baseUrl: connection.baseUrl,
+            apiToken: connection.apiToken,
+            timeout: connection.timeout,
+            pollInterval: connection.pollInterval,
+            maxPollInterval: connection.maxPollInterval,
+            editMode: connection.editMode,
+            readOnly: connection.readOnly,
+            protectedNotebooks: connection.protectedNotebooks
+        };
     }
 
     testConnection(connection: SiYuanConnection): Promise<boolean> {
@@ -153,6 +251,31 @@ export class ConfigManager {
         return Promise.resolve(true); // For now, always return true
     }
 
+    private withToken(connection: SiYuanConnection): SiYuanConnection {
+        return { ...connection, apiToken: this.tokens.get(connection.id) ?? connection.apiToken };
+    }
+
+    /**
+     * Store a connection's token in the secret storage, or remove it when empty
+     */
+    private async storeToken(id: string, token: string): Promise<void> {
+        const connection = this.config.connections.find(conn => conn.id === id);
+        if (connection) {
+            connection.apiToken = '';
+        }
+
+        if (!this.secrets) {
+            throw new Error('ConfigManager used before initialize()');
+        }
+        if (token) {
+            this.tokens.set(id, token);
+            await this.secrets.store(this.TOKEN_KEY_PREFIX + id, token);
+        } else {
+            this.tokens.delete(id);
+            await this.secrets.delete(this.TOKEN_KEY_PREFIX + id);
+        }
+    }
+
     private generateId(): string {
         return `conn_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
     }
@@ -166,8 +289,15 @@ export class ConfigManager {
         return this.config.connections.map(conn => conn.name);
     }
 
-    exportConfig(): string {
-        return JSON.stringify(this.config, null, 2);
+    /**
+     * @param includeTokens Whether to include the API tokens, they are left out by default
+     */
+    exportConfig(includeTokens: boolean = false): string {
+        const connections = this.config.connections.map(conn => ({
+            ...conn,
+            apiToken: includeTokens ? this.withToken(conn).apiToken : ''
+        }));
+        return JSON.stringify({ ...this.config, connections }, null, 2);
     }
 
     async importConfig(configJson: string): Promise<boolean> {
@@ -180,6 +310,9 @@ export class ConfigManager {
             }
 
             this.config = importedConfig;
+            for (const connection of importedConfig.connections.filter(conn => conn.apiToken)) {
+                await this.storeToken(connection.id, connection.apiToken);
+            }
             await this.saveConfig();
             this.logger.info('Configuration imported successfully', { connections: importedConfig.connections.length });
             return true;
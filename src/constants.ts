@@ -1,6 +1,11 @@
 // ABOUTME: Constants for SiYuanFS virtual file system protocol
 
 export const SIYUANFS_SCHEME = 'siyuanfs';
+export const SIYUANFS_ASSETS_FOLDER = 'assets'; // virtual root folder for data/assets, next to the notebooks
+export const SIYUANFS_NOTEBOOK_CONF_FILE = '.notebook.json'; // virtual file in each notebook holding its settings
+export const SIYUANFS_WORKSPACE_SCHEME = 'siyuanfs-workspace'; // raw files of the SiYuan workspace
+export const SIYUANFS_WORKSPACE_ROOTS = ['data', 'conf']; // workspace folders exposed through SIYUANFS_WORKSPACE_SCHEME
+export const SIYUANFS_SERVER_SCHEME = 'siyuanfs-server'; // read-only server copies, e.g. for comparing save conflicts
 
 export interface SiYuanFSFile {
     name: string;
@@ -8,6 +13,7 @@ export interface SiYuanFSFile {
     size?: number;
     ctime?: number;
     mtime?: number;
+    closed?: boolean; // notebooks only, whether the notebook is closed in SiYuan
     content?: string;
     children?: SiYuanFSFile[];
 }
@@ -16,4 +22,18 @@ export interface SiYuanFSConfig {
     baseUrl: string;
     apiToken?: string;
     timeout?: number;
-}
\ No newline at end of file
+    pollInterval?: number;
+    maxPollInterval?: number;
+    editMode?: SiYuanEditMode;
+    readOnly?: boolean;
+    protectedNotebooks?: string[];
+}
+
+/**
+ * How documents are presented in the editor: raw kramdown with IALs, or plain Markdown
+ * with the IALs restored on save
+ */
+export type SiYuanEditMode = 'kramdown' | 'markdown';
+
+export const DEFAULT_POLL_INTERVAL = 5000;
+export const DEFAULT_MAX_POLL_INTERVAL = 60000;
\ No newline at end of file
@@ -0,0 +1,73 @@
+// ABOUTME: Maps SiYuan document titles to the file names shown in the explorer and back
+
+import { SIYUANFS_ASSETS_FOLDER } from './constants';
+
+// Sibling documents sharing a title get their block ID appended, e.g. 'Notes (20240101120000-abcdefg)'
+const ID_SUFFIX = / \((\d{14}-[0-9a-z]{7})\)$/;
+
+// Characters that can't appear in a path segment on every platform, plus '%' which starts an escape
+const UNSAFE_CHARACTERS = /[%/\\:*?"<>|\x00-\x1f\x7f]/g;
+
+/**
+ * Percent-encode a title so it is a valid path segment on every platform, e.g. 'A/B testing'
+ * becomes 'A%2FB testing'. Leading dots and trailing dots or spaces are encoded as well.
+ */
+export function encodeDocumentTitle(title: string): string {
+    const escape = (char: string) => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`;
+    return title
+        .replace(UNSAFE_CHARACTERS, escape)
+        .replace(/^\.+/, dots => dots.replace(/\./g, escape))
+        .replace(/[. ]+$/, tail => tail.replace(/[. ]/g, escape));
+}
+
+/**
+ * Reverse encodeDocumentTitle. A '%' that doesn't start a valid escape is kept as is, so names
+ * typed by hand like '50% off' still map to the obvious title.
+ */
+export function decodeDocumentTitle(name: string): string {
+    return name.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+/**
+ * Build the display name of a notebook. A notebook named like the assets folder gets its first
+ * letter encoded, so both stay reachable.
+ */
+export function formatNotebookName(name: string): string {
+    const encoded = encodeDocumentTitle(name);
+    return encoded === SIYUANFS_ASSETS_FOLDER ? `%${encoded.charCodeAt(0).toString(16).toUpperCase()}${encoded.slice(1)}` : encoded;
+}
+
+/**
+ * Build the display name of a document, without the .md extension
+ * @param id Block ID to append, only passed when a sibling has the same title
+ */
+export function formatDocumentName(title: string, id?: string): string {
+    const name = encodeDocumentTitle(title);
+    return id ? `${name} (${id})` : name;
+}
+
+/**
+ * Split a display name (without .md extension) into the decoded title and, when present, its ID suffix
+ */
+export function parseDocumentName(name: string): { title: string; id?: string } {
+    const match = ID_SUFFIX.exec(name);
+    if (!match) {
+        return { title: decodeDocumentTitle(name) };
+    }
+    return { title: decodeDocumentTitle(name.slice(0, match.index)), id: match[1] };
+}
+
+/**
+ * Display names for a set of documents, disambiguating siblings that share a title
+ * @param docs Documents with their storage path and title
+ * @returns Document ID -> display name
+ */
+export function formatSiblingNames(docs: Array<{ id: string; path: string; title: string }>): Map<string, string> {
+    const counts = new Map<string, number>();
+    const siblingKey = (doc: { path: string; title: string }) => `${doc.path.substring(0, doc.path.lastIndexOf('/'))}\n${doc.title}`;
+    docs.forEach(doc => counts.set(siblingKey(doc), (counts.get(siblingKey(doc)) || 0) + 1));
+
+    const names = new Map<string, string>();
+    docs.forEach(doc => names.set(doc.id, formatDocumentName(doc.title, counts.get(siblingKey(doc))! > 1 ? doc.id : undefined)));
+    return names;
+}
@@ -2,12 +2,22 @@
 
 import * as vscode from 'vscode';
 import { SiYuanFS } from './siyuanFileSystemProvider';
-import { SIYUANFS_SCHEME, SiYuanFSConfig } from './constants';
+import { SIYUANFS_ASSETS_FOLDER, SIYUANFS_NOTEBOOK_CONF_FILE, SIYUANFS_SCHEME, SIYUANFS_WORKSPACE_SCHEME, SiYuanFSConfig } from './constants';
 import { Logger } from './logger';
 import { ConfigManager } from './configManager';
 import { ConnectionManager } from './connectionManager';
-
-export function activate(context: vscode.ExtensionContext) {
+import { SaveConflictHandler } from './saveConflicts';
+import { SiYuanWorkspaceFS } from './workspaceFileSystemProvider';
+import { OfflineDecorationProvider } from './offlineCache';
+import { ClosedNotebookDecorationProvider } from './notebookDecorations';
+import { decodeDocumentTitle, formatNotebookName } from './documentNames';
+import { OutlineProvider } from './outlineView';
+import { SqlConsole } from './sqlConsole';
+import { SiYuanSymbolProvider } from './workspaceSymbols';
+import { BlockReferenceProvider } from './blockReferences';
+import { BlockRefCompletionProvider, TagCompletionProvider } from './completions';
+
+export async function activate(context: vscode.ExtensionContext) {
 	const logger = Logger.getInstance();
 	const configManager = ConfigManager.getInstance();
 	const connectionManager = new ConnectionManager();
@@ -16,20 +26,48 @@ export function activate(context: vscode.ExtensionContext) {
 
 	console.log('SiYuanFS says "Hello"');
 
+	// API tokens are kept in the secret storage and have to be loaded before any connection is used
+	context.subscriptions.push(await configManager.initialize(context.secrets));
+
 	// Initialize with active connection or default
 	const activeConnection = configManager.getActiveConnection();
-	const config: SiYuanFSConfig = activeConnection ? {
-		baseUrl: activeConnection.baseUrl,
-		apiToken: activeConnection.apiToken,
-		timeout: activeConnection.timeout
-	} : {
+	const config: SiYuanFSConfig = (activeConnection && configManager.getFileSystemConfig(activeConnection.id)) || {
 		baseUrl: 'http://localhost:6806',
 		apiToken: '',
 		timeout: 10000
 	};
 
-	const siyuanFs = new SiYuanFS(config);
+	// siyuanfs:/ URIs use the active connection, siyuanfs://<connection-id>/ URIs any saved connection
+	const siyuanFs = new SiYuanFS(config, id => configManager.getFileSystemConfig(id), context.globalStorageUri.fsPath);
+	context.subscriptions.push(siyuanFs);
 	context.subscriptions.push(vscode.workspace.registerFileSystemProvider(SIYUANFS_SCHEME, siyuanFs, { isCaseSensitive: true }));
+	context.subscriptions.push(new SaveConflictHandler(siyuanFs));
+	context.subscriptions.push(vscode.window.registerFileDecorationProvider(new OfflineDecorationProvider(siyuanFs)));
+	context.subscriptions.push(vscode.window.registerFileDecorationProvider(new ClosedNotebookDecorationProvider(siyuanFs)));
+
+	// Lets the explorer menu offer either 'Open Notebook' or 'Close Notebook'. Keyed by the full URI, so
+	// same-named notebooks of different connections are told apart.
+	context.subscriptions.push(siyuanFs.onDidChangeNotebooks(() => {
+		vscode.commands.executeCommand('setContext', 'siyuanfs.closedNotebooks', siyuanFs.getClosedNotebooks().map(uri => uri.toString()));
+	}));
+
+	context.subscriptions.push(new OutlineProvider(siyuanFs));
+
+	context.subscriptions.push(vscode.languages.registerWorkspaceSymbolProvider(new SiYuanSymbolProvider(siyuanFs)));
+
+	const documentSelector: vscode.DocumentSelector = { scheme: SIYUANFS_SCHEME, language: 'markdown' };
+	const blockReferences = new BlockReferenceProvider(siyuanFs);
+	context.subscriptions.push(vscode.languages.registerDefinitionProvider(documentSelector, blockReferences));
+	context.subscriptions.push(vscode.languages.registerHoverProvider(documentSelector, blockReferences));
+	context.subscriptions.push(vscode.languages.registerCompletionItemProvider(documentSelector, new BlockRefCompletionProvider(siyuanFs), '('));
+	context.subscriptions.push(vscode.languages.registerCompletionItemProvider(documentSelector, new TagCompletionProvider(siyuanFs), '#'));
+
+	// Queries run on the active connection and are saved per connection, or per server without one
+	context.subscriptions.push(new SqlConsole(siyuanFs, context.globalState, () => configManager.getActiveConnection()?.id ?? siyuanFs.getConfig().baseUrl));
+
+	const workspaceFs = new SiYuanWorkspaceFS(authority => siyuanFs.getClient(authority), authority => siyuanFs.isReadOnlyConnection(authority));
+	context.subscriptions.push(workspaceFs);
+	context.subscriptions.push(vscode.workspace.registerFileSystemProvider(SIYUANFS_WORKSPACE_SCHEME, workspaceFs, { isCaseSensitive: true }));
 
 	logger.info('SiYuanFS file system provider registered', { activeConnection: activeConnection?.name || 'none' });
 
@@ -39,7 +77,7 @@ export function activate(context: vscode.ExtensionContext) {
 		if (!workspaceFolders) return;
 
 		const siyuanFolderIndex = workspaceFolders.findIndex(folder =>
-			folder.uri.scheme === SIYUANFS_SCHEME
+			folder.uri.scheme === SIYUANFS_SCHEME && !folder.uri.authority
 		);
 
 		if (siyuanFolderIndex !== -1) {
@@ -143,7 +181,8 @@ export function activate(context: vscode.ExtensionContext) {
 	// Command: Refresh file system (trigger re-read)
 	context.subscriptions.push(vscode.commands.registerCommand('siyuanfs.refresh', async () => {
 		try {
-			// Trigger a read of root directory to refresh
+			// Drop cached paths and trigger a read of root directory to refresh
+			siyuanFs.refresh();
 			await siyuanFs.readDirectory(vscode.Uri.parse(`${SIYUANFS_SCHEME}:/`));
 			vscode.window.showInformationMessage('SiYuanFS file system refreshed');
 		} catch (error: any) {
@@ -151,23 +190,182 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	}));
 
+	// Command: Upload files into the assets folder
+	context.subscriptions.push(vscode.commands.registerCommand('siyuanfs.uploadAssets', async (folderUri?: vscode.Uri) => {
+		try {
+			const targetUri = folderUri ?? vscode.Uri.parse(`${SIYUANFS_SCHEME}:/${SIYUANFS_ASSETS_FOLDER}`);
+			const picked = await vscode.window.showOpenDialog({ canSelectMany: true, openLabel: 'Upload' });
+			if (!picked?.length) {
+				return;
+			}
+
+			const files = await Promise.all(picked.map(async uri => ({
+				name: uri.path.split('/').pop()!,
+				content: await vscode.workspace.fs.readFile(uri)
+			})));
+			const uploaded = await siyuanFs.uploadAssets(targetUri, files);
+
+			// SiYuan renames uploads, so hand out ready-made links to the new names
+			const links = Object.entries(uploaded).map(([name, assetPath]) =>
+				/\.(png|jpe?g|gif|svg|webp|bmp|avif)$/i.test(assetPath) ? `![${name}](${assetPath})` : `[${name}](${assetPath})`
+			);
+			await vscode.env.clipboard.writeText(links.join('\n'));
+			vscode.window.showInformationMessage(`Uploaded ${links.length} asset(s), links copied to the clipboard`);
+		} catch (error: any) {
+			logger.error('Failed to upload assets', error);
+			vscode.window.showErrorMessage(`Failed to upload assets: ${error.message}`);
+		}
+	}));
+
+	// Notebook commands run on the notebook selected in the explorer, or ask for one of the connections
+	// in the workspace, or of the active connection when none is
+	const pickNotebook = async (uri: vscode.Uri | undefined, filter: (uri: vscode.Uri) => boolean = () => true): Promise<vscode.Uri | undefined> => {
+		if (uri) {
+			return uri;
+		}
+		const roots = new Map<string, { uri: vscode.Uri; name: string }>(); // authority -> root of the connection
+		for (const folder of vscode.workspace.workspaceFolders ?? []) {
+			if (folder.uri.scheme === SIYUANFS_SCHEME && !roots.has(folder.uri.authority)) {
+				roots.set(folder.uri.authority, { uri: folder.uri.with({ path: '/' }), name: folder.name });
+			}
+		}
+		if (roots.size === 0) {
+			roots.set('', { uri: vscode.Uri.parse(`${SIYUANFS_SCHEME}:/`), name: '' });
+		}
+
+		const items: Array<{ label: string; description?: string; uri: vscode.Uri }> = [];
+		for (const root of roots.values()) {
+			try {
+				(await siyuanFs.readDirectory(root.uri))
+					.filter(([name, type]) => type === vscode.FileType.Directory && name !== SIYUANFS_ASSETS_FOLDER)
+					.map(([name]) => root.uri.with({ path: `/${name}` }))
+					.filter(filter)
+					.forEach(notebookUri => items.push({
+						label: decodeDocumentTitle(notebookUri.path.substring(1)),
+						description: roots.size > 1 ? root.name : undefined,
+						uri: notebookUri
+					}));
+			} catch (error: any) {
+				// One unreachable connection still leaves the notebooks of the others
+				logger.warn(`Cannot list the notebooks of ${root.uri.toString()}`, error);
+			}
+		}
+		const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Select a notebook' });
+		return picked?.uri;
+	};
+
+	// Command: Create a notebook
+	context.subscriptions.push(vscode.commands.registerCommand('siyuanfs.createNotebook', async (rootUri?: vscode.Uri) => {
+		try {
+			const name = await vscode.window.showInputBox({ prompt: 'Name of the new notebook' });
+			if (!name) {
+				return;
+			}
+			const root = rootUri ?? vscode.Uri.parse(`${SIYUANFS_SCHEME}:/`);
+			await vscode.workspace.fs.createDirectory(root.with({ path: `/${formatNotebookName(name)}` }));
+		} catch (error: any) {
+			logger.error('Failed to create notebook', error);
+			vscode.window.showErrorMessage(`Failed to create notebook: ${error.message}`);
+		}
+	}));
+
+	// Command: Rename a notebook
+	context.subscriptions.push(vscode.commands.registerCommand('siyuanfs.renameNotebook', async (uri?: vscode.Uri) => {
+		try {
+			const notebookUri = await pickNotebook(uri);
+			if (!notebookUri) {
+				return;
+			}
+			const oldName = decodeDocumentTitle(notebookUri.path.substring(1));
+			const newName = await vscode.window.showInputBox({ prompt: 'New name of the notebook', value: oldName });
+			if (!newName || newName === oldName) {
+				return;
+			}
+			await vscode.workspace.fs.rename(notebookUri, notebookUri.with({ path: `/${formatNotebookName(newName)}` }));
+		} catch (error: any) {
+			logger.error('Failed to rename notebook', error);
+			vscode.window.showErrorMessage(`Failed to rename notebook: ${error.message}`);
+		}
+	}));
+
+	// Command: Open or close a notebook
+	for (const [command, closed] of [['siyuanfs.openNotebook', false], ['siyuanfs.closeNotebook', true]] as const) {
+		context.subscriptions.push(vscode.commands.registerCommand(command, async (uri?: vscode.Uri) => {
+			try {
+				const notebookUri = await pickNotebook(uri, candidate => siyuanFs.isNotebookClosed(candidate) !== closed);
+				if (notebookUri) {
+					await siyuanFs.setNotebookClosed(notebookUri, closed);
+				}
+			} catch (error: any) {
+				logger.error(`Failed to ${closed ? 'close' : 'open'} notebook`, error);
+				vscode.window.showErrorMessage(`Failed to ${closed ? 'close' : 'open'} notebook: ${error.message}`);
+			}
+		}));
+	}
+
+	// Command: Remove a notebook with all of its documents
+	context.subscriptions.push(vscode.commands.registerCommand('siyuanfs.removeNotebook', async (uri?: vscode.Uri) => {
+		try {
+			const notebookUri = await pickNotebook(uri);
+			if (!notebookUri) {
+				return;
+			}
+			const name = decodeDocumentTitle(notebookUri.path.substring(1));
+			const choice = await vscode.window.showWarningMessage(
+				`Remove notebook '${name}' with all of its documents from SiYuan?`,
+				{ modal: true },
+				'Remove'
+			);
+			if (choice === 'Remove') {
+				await siyuanFs.removeNotebook(notebookUri);
+			}
+		} catch (error: any) {
+			logger.error('Failed to remove notebook', error);
+			vscode.window.showErrorMessage(`Failed to remove notebook: ${error.message}`);
+		}
+	}));
+
+	// Command: Open the settings of a notebook as JSON
+	context.subscriptions.push(vscode.commands.registerCommand('siyuanfs.notebookSettings', async (uri?: vscode.Uri) => {
+		try {
+			const notebookUri = await pickNotebook(uri, candidate => !siyuanFs.isNotebookClosed(candidate));
+			if (notebookUri) {
+				const document = await vscode.workspace.openTextDocument(vscode.Uri.joinPath(notebookUri, SIYUANFS_NOTEBOOK_CONF_FILE));
+				await vscode.window.showTextDocument(document);
+			}
+		} catch (error: any) {
+			logger.error('Failed to open notebook settings', error);
+			vscode.window.showErrorMessage(`Failed to open notebook settings: ${error.message}`);
+		}
+	}));
+
 	// Command: Setup workspace
 	context.subscriptions.push(vscode.commands.registerCommand('siyuanfs.workspaceInit', async () => {
 		try {
 			logger.info('Manually adding SiYuanFS workspace folder...');
 
+			// Any saved connection can be mounted next to the others, under its ID as URI authority
+			const connection = configManager.hasConnections() ? await connectionManager.showConnectionPicker() : null;
+			if (configManager.hasConnections() && !connection) {
+				return;
+			}
+
 			// First test if the connection works
-			const testUri = vscode.Uri.parse(`${SIYUANFS_SCHEME}:/`);
+			const testUri = vscode.Uri.from({ scheme: SIYUANFS_SCHEME, authority: connection?.id ?? '', path: '/' });
+			if (vscode.workspace.getWorkspaceFolder(testUri)) {
+				vscode.window.showInformationMessage(`'${connection?.name}' is already in the workspace.`);
+				return;
+			}
 			const files = await siyuanFs.readDirectory(testUri);
 			logger.info(`Connection test successful, found ${files.length} files`);
 
 			// Then add the workspace folder with connection name
-			const currentActiveConnection = configManager.getActiveConnection();
-			const folderName = currentActiveConnection
-				? `SiYuanFS - ${currentActiveConnection.name}`
+			const folderName = connection
+				? `SiYuanFS - ${connection.name}`
 				: "SiYuanFS - Virtual File System";
 
-			vscode.workspace.updateWorkspaceFolders(0, 0, {
+			const workspaceFolders = vscode.workspace.workspaceFolders || [];
+			vscode.workspace.updateWorkspaceFolders(workspaceFolders.length, 0, {
 				uri: testUri,
 				name: folderName
 			});
@@ -180,6 +378,30 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	}));
 
+	// Command: Add the raw workspace files as a workspace folder
+	context.subscriptions.push(vscode.commands.registerCommand('siyuanfs.workspaceDataInit', async () => {
+		try {
+			const connection = configManager.hasConnections() ? await connectionManager.showConnectionPicker() : null;
+			if (configManager.hasConnections() && !connection) {
+				return;
+			}
+
+			const rootUri = vscode.Uri.from({ scheme: SIYUANFS_WORKSPACE_SCHEME, authority: connection?.id ?? '', path: '/' });
+			await workspaceFs.stat(rootUri.with({ path: '/data' }));
+
+			const folderName = connection
+				? `SiYuan Workspace - ${connection.name}`
+				: 'SiYuan Workspace';
+			const workspaceFolders = vscode.workspace.workspaceFolders || [];
+			vscode.workspace.updateWorkspaceFolders(workspaceFolders.length, 0, { uri: rootUri, name: folderName });
+
+			logger.info('Workspace data folder added successfully');
+		} catch (error: any) {
+			logger.error('Failed to add workspace data folder:', error);
+			vscode.window.showErrorMessage(`Failed to add workspace data folder: ${error.message}`);
+		}
+	}));
+
 	logger.info('SiYuanFS extension activation completed');
 
 	// Update workspace folder name if there's already a folder and active connection
@@ -230,12 +452,10 @@ export function activate(context: vscode.ExtensionContext) {
 		if (success) {
 			// Update the file system provider with new config
 			const updatedConnection = configManager.getActiveConnection();
-			if (updatedConnection) {
-				siyuanFs.updateConfig({
-					baseUrl: updatedConnection.baseUrl,
-					apiToken: updatedConnection.apiToken,
-					timeout: updatedConnection.timeout
-				});
+			const updatedConfig = updatedConnection && configManager.getFileSystemConfig(updatedConnection.id);
+			if (updatedConnection && updatedConfig) {
+				siyuanFs.updateConfig(updatedConfig);
+				siyuanFs.updateConfig(updatedConfig, updatedConnection.id);
 				// Update folder name if connection name changed
 				updateWorkspaceFolderName(updatedConnection.name);
 			}
@@ -0,0 +1,457 @@
+// ABOUTME: Splits SiYuan kramdown into top-level blocks and converts between kramdown and plain Markdown
+
+// A complete inline attribute list, e.g. {: id="20210131155408-3t627wc" updated="20210131155408"}
+const IAL = String.raw`\{:(?:\s+[^\s="}]+="[^"]*")*\s*\}`;
+const IAL_LINE = new RegExp(`^${IAL}$`);
+const NESTED_IAL_LINE = new RegExp(`^[\\s>]*${IAL}\\s*$`);
+const LIST_ITEM_IAL = new RegExp(`^([\\s>]*(?:[*+-]|\\d+[.)])\\s+)${IAL}`);
+const LIST_ITEM = /^\s*(?:[*+-]|\d+[.)])\s/;
+const LIST_ITEM_PREFIX = /^[\s>]*(?:[*+-]|\d+[.)])\s+/;
+const FENCE = /^[\s>]*(`{3,}|~{3,}|\$\$)/;
+
+export interface KramdownBlock {
+    id?: string; // block ID from the trailing IAL, missing for blocks that don't exist on the server yet
+    ial?: string; // the trailing IAL line
+    markdown: string; // block source, including IALs of nested blocks
+}
+
+export interface KramdownDocument {
+    blocks: KramdownBlock[];
+    documentIal?: string; // the IAL line of the document block itself
+}
+
+/**
+ * Split kramdown, or plain Markdown, into its top-level blocks. A top-level IAL line closes the
+ * block before it; blocks without an IAL are separated by blank lines.
+ */
+export function parseKramdown(kramdown: string): KramdownDocument {
+    const lines = kramdown.replace(/\r\n/g, '\n').split('\n');
+    const result: KramdownDocument = { blocks: [] };
+    let current: string[] = [];
+    let fence: string | undefined;
+    let superBlockDepth = 0;
+
+    const closeBlock = (ial?: string) => {
+        const markdown = trimBlankLines(current).join('\n');
+        if (markdown !== '' || ial) {
+            result.blocks.push({ id: ial ? getIalId(ial) : undefined, ial, markdown });
+        }
+        current = [];
+    };
+
+    lines.forEach((line, index) => {
+        const topLevel = fence === undefined && superBlockDepth === 0;
+
+        if (topLevel && IAL_LINE.test(line)) {
+            if (/\stype="doc"/.test(line) && trimBlankLines(current).length === 0) {
+                result.documentIal = line;
+                current = [];
+            } else {
+                closeBlock(line);
+            }
+            return;
+        }
+
+        if (topLevel && line.trim() === '') {
+            if (current.length > 0 && !continuesBlock(current, lines, index)) {
+                closeBlock();
+            } else if (current.length > 0) {
+                current.push(line);
+            }
+            return;
+        }
+
+        fence = updateFence(fence, line);
+        if (fence === undefined) {
+            if (line.trim().startsWith('{{{')) {
+                superBlockDepth++;
+            } else if (line.trim() === '}}}' && superBlockDepth > 0) {
+                superBlockDepth--;
+            }
+        }
+        current.push(line);
+    });
+    closeBlock();
+
+    return result;
+}
+
+export function serializeKramdown(document: KramdownDocument): string {
+    const parts = document.blocks.map(block => (block.ial ? (block.markdown ? `${block.markdown}\n${block.ial}` : block.ial) : block.markdown));
+    if (document.documentIal) {
+        parts.push(document.documentIal);
+    }
+    return parts.join('\n\n');
+}
+
+/**
+ * Remove block IALs from a block's source, including those of nested list items, quotes and super blocks
+ */
+export function stripIals(markdown: string): string {
+    let fence: string | undefined;
+    const lines: string[] = [];
+
+    for (const line of markdown.split('\n')) {
+        if (fence === undefined) {
+            if (NESTED_IAL_LINE.test(line)) {
+                continue;
+            }
+            lines.push(line.replace(LIST_ITEM_IAL, '$1'));
+        } else {
+            lines.push(line);
+        }
+        fence = updateFence(fence, line);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Render a document's kramdown as plain Markdown without any IALs
+ */
+export function toCleanMarkdown(kramdown: string): string {
+    return parseKramdown(kramdown).blocks
+        .map(block => stripIals(block.markdown))
+        .filter(markdown => markdown.trim() !== '')
+        .join('\n\n');
+}
+
+/**
+ * Map edited plain Markdown back onto the block structure of the original kramdown. Unchanged
+ * blocks keep their full source, edited blocks keep their ID and attributes as well as those of
+ * their nested blocks, and blocks that are new get no IAL so the server assigns them an ID.
+ * @param kramdown Current kramdown of the document on the server
+ * @param markdown Edited Markdown as produced from toCleanMarkdown
+ */
+export function mergeCleanMarkdown(kramdown: string, markdown: string): KramdownDocument {
+    const original = parseKramdown(kramdown);
+    const edited = parseKramdown(markdown).blocks;
+    const oldClean = original.blocks.map(block => stripIals(block.markdown));
+
+    // Empty blocks are invisible in clean mode, so they never take part in matching
+    const candidates = original.blocks.map((_, i) => i).filter(i => oldClean[i].trim() !== '');
+    const matches = longestCommonSubsequence(candidates.map(i => oldClean[i]), edited.map(block => block.markdown))
+        .map(([oldIndex, newIndex]) => [candidates[oldIndex], newIndex] as const);
+
+    const blocks: KramdownBlock[] = [];
+    let oldStart = 0;
+    let newStart = 0;
+    for (const [oldIndex, newIndex] of [...matches, [original.blocks.length, edited.length] as const]) {
+        // Blocks between two matches were edited in place, removed or added
+        const newGap = edited.slice(newStart, newIndex);
+        let paired = 0;
+        for (const block of original.blocks.slice(oldStart, oldIndex)) {
+            if (stripIals(block.markdown).trim() === '') {
+                blocks.push(block);
+            } else if (paired < newGap.length) {
+                blocks.push({ id: block.id, ial: block.ial, markdown: restoreNestedIals(block.markdown, newGap[paired++].markdown) });
+            }
+        }
+        blocks.push(...newGap.slice(paired));
+
+        if (oldIndex < original.blocks.length) {
+            blocks.push(original.blocks[oldIndex]);
+        }
+        oldStart = oldIndex + 1;
+        newStart = newIndex + 1;
+    }
+
+    return { blocks, documentIal: original.documentIal };
+}
+
+/**
+ * Put the IALs of nested blocks, e.g. list items, quote children and super-block children, back
+ * into an edited container block. Edited lines are matched to the original ones; lines edited in
+ * place take over the IALs of the lines they replace, so nested blocks keep their IDs.
+ * @param original Block source including the IALs of nested blocks
+ * @param edited The block's plain Markdown after editing
+ */
+export function restoreNestedIals(original: string, edited: string): string {
+    // Nested blocks are closed by IAL lines, each group is the content lines of one or more blocks
+    // closed together, e.g. a list item's paragraph and the sublist it ends
+    const lines: Array<{ clean: string; itemIal?: string; group: number }> = [];
+    const groupIals: string[][] = [[]];
+    let fence: string | undefined;
+    for (const line of original.split('\n')) {
+        if (fence === undefined && NESTED_IAL_LINE.test(line)) {
+            groupIals[groupIals.length - 1].push(line);
+            continue;
+        }
+        if (groupIals[groupIals.length - 1].length > 0) {
+            groupIals.push([]);
+        }
+        const item = fence === undefined ? LIST_ITEM_IAL.exec(line) : null;
+        lines.push({
+            clean: item ? line.replace(LIST_ITEM_IAL, '$1') : line,
+            itemIal: item ? item[0].substring(item[1].length) : undefined,
+            group: groupIals.length - 1,
+        });
+        fence = updateFence(fence, line);
+    }
+    if (groupIals.every(ials => ials.length === 0) && lines.every(line => !line.itemIal)) {
+        return edited;
+    }
+
+    // Unmatched lines between two matches were edited in place when paired up, else removed or added
+    const editedLines = edited.split('\n');
+    const sources: Array<number | undefined> = new Array(editedLines.length).fill(undefined);
+    const matches = longestCommonSubsequence(lines.map(line => line.clean), editedLines);
+    let oldStart = 0;
+    let newStart = 0;
+    for (const [oldIndex, newIndex] of [...matches, [lines.length, editedLines.length] as const]) {
+        const oldGap = range(oldStart, oldIndex).filter(i => lines[i].clean.trim() !== '');
+        const newGap = range(newStart, newIndex).filter(i => editedLines[i].trim() !== '');
+        newGap.slice(0, oldGap.length).forEach((newLine, k) => (sources[newLine] = oldGap[k]));
+        if (oldIndex < lines.length) {
+            sources[newIndex] = oldIndex;
+        }
+        oldStart = oldIndex + 1;
+        newStart = newIndex + 1;
+    }
+
+    // A group's IALs follow the last line that is left of it, a group without any lines was removed
+    const groupEnds = new Map<number, number>();
+    sources.forEach((source, i) => {
+        if (source !== undefined && editedLines[i].trim() !== '') {
+            groupEnds.set(lines[source].group, i);
+        }
+    });
+
+    const result: string[] = [];
+    editedLines.forEach((line, i) => {
+        const itemIal = sources[i] !== undefined ? lines[sources[i]!].itemIal : undefined;
+        const marker = itemIal ? LIST_ITEM_PREFIX.exec(line) : null;
+        result.push(marker ? `${marker[0]}${itemIal}${line.substring(marker[0].length)}` : line);
+        for (const [group, end] of [...groupEnds].sort(([a], [b]) => a - b)) {
+            if (end === i) {
+                result.push(...groupIals[group]);
+            }
+        }
+    });
+    return result.join('\n');
+}
+
+export interface BlockDiffPlan {
+    deleted: string[]; // IDs of blocks to remove
+    blocks: Array<{
+        id?: string; // existing block, or undefined for a block to insert
+        data: string; // kramdown of the block including its IAL
+        moved: boolean; // existing block whose position changed
+        changed: boolean; // existing block whose source changed
+    }>; // the new top-level blocks, in document order
+}
+
+/**
+ * Compare two versions of a document block by block. Blocks are matched through the IDs in
+ * their IALs; blocks that keep their relative order stay in place and only the others move.
+ * The document's own IAL is not part of the plan.
+ */
+export function planBlockDiff(oldDocument: KramdownDocument, newDocument: KramdownDocument): BlockDiffPlan {
+    const oldBlocks = new Map(oldDocument.blocks.filter(block => block.id).map(block => [block.id!, block]));
+
+    // An ID can only be kept once, unknown or repeated IDs (e.g. from pasted kramdown) become new blocks
+    const keptIds = new Set<string>();
+    const newBlocks = newDocument.blocks.map(block => {
+        if (block.id && oldBlocks.has(block.id) && !keptIds.has(block.id)) {
+            keptIds.add(block.id);
+            return block;
+        }
+        return { markdown: block.markdown };
+    });
+
+    const oldOrder = oldDocument.blocks.map(block => block.id!).filter(id => keptIds.has(id));
+    const newOrder = newBlocks.filter(block => block.id).map(block => block.id!);
+    const stable = new Set(longestCommonSubsequence(oldOrder, newOrder).map(([i]) => oldOrder[i]));
+
+    return {
+        deleted: [...oldBlocks.keys()].filter(id => !keptIds.has(id)),
+        blocks: newBlocks.map(block => {
+            const data = serializeKramdown({ blocks: [block] });
+            if (!block.id) {
+                return { data, moved: false, changed: false };
+            }
+            const oldBlock = oldBlocks.get(block.id)!;
+            return {
+                id: block.id,
+                data,
+                moved: !stable.has(block.id),
+                changed: oldBlock.markdown !== block.markdown || oldBlock.ial !== block.ial,
+            };
+        }),
+    };
+}
+
+/**
+ * Find where a block starts in kramdown, by the ID in its IAL
+ * @returns Zero-based line, or undefined when the ID doesn't occur, e.g. in plain Markdown
+ */
+export function findBlockLine(kramdown: string, id: string): number | undefined {
+    const lines = kramdown.replace(/\r\n/g, '\n').split('\n');
+    const ialIndex = lines.findIndex(line => line.includes(`id="${id}"`) && (NESTED_IAL_LINE.test(line) || LIST_ITEM_IAL.test(line)));
+    if (ialIndex === -1) {
+        return undefined;
+    }
+    // List items carry their IAL right after the marker
+    if (!NESTED_IAL_LINE.test(lines[ialIndex])) {
+        return ialIndex;
+    }
+
+    // Any other block is closed by its IAL, walk back to its first line
+    let start = ialIndex;
+    let inFence = false;
+    let superBlockDepth = 0;
+    for (let i = ialIndex - 1; i >= 0; i--) {
+        const line = lines[i].trim();
+        if (FENCE.test(lines[i])) {
+            inFence = !inFence;
+        } else if (!inFence) {
+            if (superBlockDepth === 0 && (line === '' || IAL_LINE.test(lines[i]))) {
+                break;
+            }
+            if (line === '}}}') {
+                superBlockDepth++;
+            } else if (line.startsWith('{{{')) {
+                // Opening a super block the block is nested in, rather than one it ends with
+                if (superBlockDepth === 0) {
+                    break;
+                }
+                superBlockDepth--;
+            }
+        }
+        start = i;
+        if (!inFence && superBlockDepth === 0 && line.startsWith('{{{')) {
+            break;
+        }
+    }
+    return start;
+}
+
+/**
+ * Find where a top-level block starts in plain Markdown produced by toCleanMarkdown, through the
+ * position of the block in the server's kramdown. Nested blocks resolve to their top-level block.
+ * @param kramdown The server's kramdown of the document
+ * @param markdown Plain Markdown as shown in the editor
+ * @returns Zero-based line, or undefined when the block isn't in the document
+ */
+export function findCleanBlockLine(kramdown: string, markdown: string, id: string): number | undefined {
+    const original = parseKramdown(kramdown).blocks;
+    const index = original.findIndex(block => block.id === id || block.markdown.includes(`id="${id}"`));
+    if (index === -1) {
+        return undefined;
+    }
+    // Empty blocks are invisible in clean mode
+    const visibleIndex = original.slice(0, index).filter(block => stripIals(block.markdown).trim() !== '').length;
+
+    const text = markdown.replace(/\r\n/g, '\n');
+    const blocks = parseKramdown(text).blocks;
+    let offset = 0;
+    for (let i = 0; i < blocks.length; i++) {
+        const found = text.indexOf(blocks[i].markdown, offset);
+        if (found === -1) {
+            return undefined;
+        }
+        if (i === Math.min(visibleIndex, blocks.length - 1)) {
+            return text.substring(0, found).split('\n').length - 1;
+        }
+        offset = found + blocks[i].markdown.length;
+    }
+    return undefined;
+}
+
+/**
+ * Build a static block reference, e.g. ((20210808180117-6v0mkxr "anchor text"))
+ */
+export function formatBlockRef(id: string, anchor: string): string {
+    const text = anchor.replace(/\s+/g, ' ').trim().replace(/"/g, '&quot;');
+    return `((${id} "${text}"))`;
+}
+
+export interface InlineMatch {
+    start: number; // offset in the line
+    end: number;
+}
+
+/**
+ * Block references in a line, static ((id "anchor")) as well as dynamic ((id 'anchor')) and bare ((id))
+ */
+export function findBlockRefs(line: string): Array<InlineMatch & { id: string }> {
+    return [...line.matchAll(/\(\((\d{14}-[a-z0-9]{7})(?:\s+(?:"[^"]*"|'[^']*'))?\)\)/g)]
+        .map(match => ({ id: match[1], start: match.index!, end: match.index! + match[0].length }));
+}
+
+/**
+ * Embed blocks in a line, e.g. {{SELECT * FROM blocks WHERE content LIKE '%todo%'}}
+ */
+export function findEmbedQueries(line: string): Array<InlineMatch & { stmt: string }> {
+    // SiYuan keeps embeds on one line, newlines of the statement are stored as _esc_newline_
+    return [...line.matchAll(/\{\{\s*(select\s.*?)\}\}/gi)]
+        .map(match => ({ stmt: match[1].replace(/_esc_newline_/g, '\n').trim(), start: match.index!, end: match.index! + match[0].length }));
+}
+
+export function getIalId(ial: string): string | undefined {
+    return /\sid="([^"]+)"/.exec(ial)?.[1];
+}
+
+/**
+ * Index pairs of a longest common subsequence of two string lists, in ascending order
+ */
+export function longestCommonSubsequence(a: string[], b: string[]): Array<[number, number]> {
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const pairs: Array<[number, number]> = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            pairs.push([i++, j++]);
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return pairs;
+}
+
+function range(start: number, end: number): number[] {
+    return Array.from({ length: Math.max(0, end - start) }, (_, i) => start + i);
+}
+
+function updateFence(fence: string | undefined, line: string): string | undefined {
+    const match = FENCE.exec(line);
+    if (!match) {
+        return fence;
+    }
+    if (fence === undefined) {
+        return match[1];
+    }
+    return match[1][0] === fence[0] && match[1].length >= fence.length ? undefined : fence;
+}
+
+/**
+ * Whether a blank line continues the current block, as in loose lists and multi-paragraph list items
+ */
+function continuesBlock(current: string[], lines: string[], blankIndex: number): boolean {
+    const next = lines.slice(blankIndex + 1).find(line => line.trim() !== '');
+    if (next === undefined) {
+        return false;
+    }
+    const first = current.find(line => line.trim() !== '') ?? '';
+    return /^\s/.test(next) || (LIST_ITEM.test(first) && LIST_ITEM.test(next) && !IAL_LINE.test(next));
+}
+
+function trimBlankLines(lines: string[]): string[] {
+    let start = 0;
+    let end = lines.length;
+    while (start < end && lines[start].trim() === '') {
+        start++;
+    }
+    while (end > start && lines[end - 1].trim() === '') {
+        end--;
+    }
+    return lines.slice(start, end);
+}
@@ -0,0 +1,22 @@
+// ABOUTME: Marks notebooks that are closed in SiYuan in the explorer
+
+import * as vscode from 'vscode';
+
+export class ClosedNotebookDecorationProvider implements vscode.FileDecorationProvider {
+    readonly onDidChangeFileDecorations: vscode.Event<vscode.Uri[]>;
+
+    constructor(private source: { onDidChangeNotebooks: vscode.Event<vscode.Uri[]>; isNotebookClosed(uri: vscode.Uri): boolean }) {
+        this.onDidChangeFileDecorations = source.onDidChangeNotebooks;
+    }
+
+    provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+        if (!this.source.isNotebookClosed(uri)) {
+            return undefined;
+        }
+        return new vscode.FileDecoration(
+            '⊘',
+            'Closed notebook, expand it or use \'Open Notebook\' to open it',
+            new vscode.ThemeColor('disabledForeground')
+        );
+    }
+}
@@ -0,0 +1,149 @@
+// ABOUTME: Disk-backed copies of listings and recently opened documents, read while SiYuan is unreachable
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as nodePath from 'path';
+import { createHash } from 'crypto';
+import { Logger } from './logger';
+
+const MAX_DOCUMENTS = 100; // recently read documents kept, older ones are dropped first
+const SAVE_DELAY = 1000;
+
+export interface CachedEntry<T> {
+    value: T;
+    cachedAt: number; // when the copy was taken from the server
+}
+
+interface CacheData {
+    stats: Record<string, CachedEntry<vscode.FileStat>>;
+    listings: Record<string, CachedEntry<[string, vscode.FileType][]>>;
+    documents: Record<string, CachedEntry<string>>;
+}
+
+export class OfflineCache implements vscode.Disposable {
+    private logger: Logger;
+    private file: string;
+    private data?: CacheData;
+    private saveHandle?: NodeJS.Timeout;
+
+    /**
+     * @param storagePath Directory for the cache files, e.g. the extension's global storage
+     * @param baseUrl Server the cached copies come from, each server has its own cache file
+     */
+    constructor(storagePath: string, baseUrl: string) {
+        this.logger = Logger.getInstance();
+        const key = createHash('sha1').update(baseUrl).digest('hex').substring(0, 16);
+        this.file = nodePath.join(storagePath, 'offline', `${key}.json`);
+    }
+
+    getStat(path: string): CachedEntry<vscode.FileStat> | undefined {
+        return this.load().stats[path];
+    }
+
+    putStat(path: string, stat: vscode.FileStat): void {
+        this.load().stats[path] = { value: { type: stat.type, ctime: stat.ctime, mtime: stat.mtime, size: stat.size }, cachedAt: Date.now() };
+        this.scheduleSave();
+    }
+
+    getListing(path: string): CachedEntry<[string, vscode.FileType][]> | undefined {
+        return this.load().listings[path];
+    }
+
+    putListing(path: string, entries: [string, vscode.FileType][]): void {
+        this.load().listings[path] = { value: entries, cachedAt: Date.now() };
+        this.scheduleSave();
+    }
+
+    getDocument(path: string): CachedEntry<string> | undefined {
+        return this.load().documents[path];
+    }
+
+    putDocument(path: string, content: string): void {
+        const documents = this.load().documents;
+        delete documents[path]; // re-inserted last, keys keep insertion order
+        documents[path] = { value: content, cachedAt: Date.now() };
+
+        const paths = Object.keys(documents);
+        paths.slice(0, Math.max(0, paths.length - MAX_DOCUMENTS)).forEach(oldPath => delete documents[oldPath]);
+        this.scheduleSave();
+    }
+
+    /**
+     * Forget a document and everything below it, e.g. after it was renamed or deleted
+     */
+    remove(path: string): void {
+        const data = this.load();
+        const documentPath = path.replace(/\.md$/, '');
+        for (const entries of [data.stats, data.listings, data.documents]) {
+            for (const key of Object.keys(entries)) {
+                if (key === path || key === documentPath || key === `${documentPath}.md` || key.startsWith(`${documentPath}/`)) {
+                    delete entries[key];
+                }
+            }
+        }
+        this.scheduleSave();
+    }
+
+    dispose(): void {
+        if (this.saveHandle) {
+            clearTimeout(this.saveHandle);
+            this.saveHandle = undefined;
+            this.save();
+        }
+    }
+
+    private load(): CacheData {
+        if (!this.data) {
+            try {
+                this.data = JSON.parse(fs.readFileSync(this.file, 'utf8')) as CacheData;
+            } catch (error: any) {
+                if (error.code !== 'ENOENT') {
+                    this.logger.warn(`Cannot read offline cache ${this.file}, starting empty`, error);
+                }
+                this.data = { stats: {}, listings: {}, documents: {} };
+            }
+        }
+        return this.data;
+    }
+
+    private scheduleSave(): void {
+        if (!this.saveHandle) {
+            this.saveHandle = setTimeout(() => {
+                this.saveHandle = undefined;
+                this.save();
+            }, SAVE_DELAY);
+        }
+    }
+
+    private save(): void {
+        try {
+            fs.mkdirSync(nodePath.dirname(this.file), { recursive: true });
+            fs.writeFileSync(this.file, JSON.stringify(this.data));
+        } catch (error) {
+            this.logger.warn(`Cannot write offline cache ${this.file}`, error);
+        }
+    }
+}
+
+/**
+ * Marks files and folders shown from the offline cache in the explorer and editor tabs
+ */
+export class OfflineDecorationProvider implements vscode.FileDecorationProvider {
+    readonly onDidChangeFileDecorations: vscode.Event<vscode.Uri[]>;
+
+    constructor(private source: { onDidChangeStale: vscode.Event<vscode.Uri[]>; getCachedAt(uri: vscode.Uri): number | undefined }) {
+        this.onDidChangeFileDecorations = source.onDidChangeStale;
+    }
+
+    provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+        const cachedAt = this.source.getCachedAt(uri);
+        if (cachedAt === undefined) {
+            return undefined;
+        }
+        return new vscode.FileDecoration(
+            '~',
+            `Offline copy from ${new Date(cachedAt).toLocaleString()}, read-only until SiYuan is reachable again`,
+            new vscode.ThemeColor('list.deemphasizedForeground')
+        );
+    }
+}
@@ -0,0 +1,252 @@
+// ABOUTME: "SiYuan Outline" tree view of the block hierarchy of the active SiYuan document
+
+import * as vscode from 'vscode';
+import { SiYuanFS } from './siyuanFileSystemProvider';
+import { SiYuanFSHttpClient } from './SiYuanFSHttpClient';
+import { formatBlockRef } from './kramdown';
+import { revealBlock } from './blockNavigation';
+import { Logger } from './logger';
+
+// Blocks whose children are listed by getChildBlocks: lists, list items, quotes, super blocks and callouts
+const CONTAINER_TYPES = new Set(['l', 'i', 'b', 's', 'callout']);
+const FOLDABLE_TYPES = new Set(['h', 'l', 'i', 'b', 's', 'callout']);
+const MAX_LABEL_LENGTH = 80;
+
+const TYPE_NAMES: Record<string, string> = {
+    h: 'Heading', p: 'Paragraph', l: 'List', i: 'List item', b: 'Quote', s: 'Super block', c: 'Code',
+    t: 'Table', m: 'Math', tb: 'Divider', html: 'HTML', query_embed: 'Embed', callout: 'Callout',
+    video: 'Video', audio: 'Audio', iframe: 'IFrame', widget: 'Widget', av: 'Database'
+};
+
+const TYPE_ICONS: Record<string, string> = {
+    h: 'symbol-key', p: 'symbol-text', l: 'list-unordered', i: 'circle-small', b: 'quote', s: 'layers',
+    c: 'code', t: 'table', m: 'symbol-operator', tb: 'dash', html: 'code', query_embed: 'references',
+    callout: 'info', av: 'database'
+};
+
+interface OutlineNode {
+    id: string;
+    type: string; // SiYuan block type, e.g. 'h', 'p', 'l'
+    subType: string; // e.g. 'h2' for headings, 'o' for ordered lists
+    label: string;
+    folded: boolean;
+    parentId: string; // block whose getChildBlocks lists this one, the document for top-level blocks
+    section?: OutlineNode[]; // blocks below a heading up to the next heading of the same or a higher level
+}
+
+interface BlockInfo {
+    content: string;
+    folded: boolean;
+}
+
+export class OutlineProvider implements vscode.TreeDataProvider<OutlineNode>, vscode.Disposable {
+    private logger: Logger;
+    private disposables: vscode.Disposable[] = [];
+    private _onDidChangeTreeData = new vscode.EventEmitter<OutlineNode | undefined>();
+    private documentUri?: vscode.Uri; // document the outline is shown for
+    private documentId?: string;
+    private blocks = new Map<string, BlockInfo>(); // block ID -> label and fold state, for the shown document
+
+    readonly onDidChangeTreeData: vscode.Event<OutlineNode | undefined> = this._onDidChangeTreeData.event;
+
+    constructor(private fs: SiYuanFS) {
+        this.logger = Logger.getInstance();
+        this.disposables.push(
+            this._onDidChangeTreeData,
+            vscode.window.registerTreeDataProvider('siyuanfs.outline', this),
+            vscode.window.onDidChangeActiveTextEditor(editor => this.showDocument(editor?.document.uri)),
+            // Covers saves as well as changes made in SiYuan
+            fs.onDidChangeFile(events => {
+                if (events.some(event => event.uri.toString() === this.documentUri?.toString())) {
+                    this.refresh();
+                }
+            }),
+            vscode.commands.registerCommand('siyuanfs.outline.refresh', () => this.refresh()),
+            vscode.commands.registerCommand('siyuanfs.outline.reveal', (node: OutlineNode) => this.reveal(node)),
+            vscode.commands.registerCommand('siyuanfs.outline.fold', (node: OutlineNode) => this.fold(node, true)),
+            vscode.commands.registerCommand('siyuanfs.outline.unfold', (node: OutlineNode) => this.fold(node, false)),
+            vscode.commands.registerCommand('siyuanfs.outline.copyRef', (node: OutlineNode) => this.copyRef(node)),
+            vscode.commands.registerCommand('siyuanfs.outline.move', (node: OutlineNode) => this.move(node))
+        );
+        this.showDocument(vscode.window.activeTextEditor?.document.uri);
+    }
+
+    getTreeItem(node: OutlineNode): vscode.TreeItem {
+        const expandable = (node.section?.length ?? 0) > 0 || CONTAINER_TYPES.has(node.type);
+        const item = new vscode.TreeItem(node.label, expandable ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+        item.id = node.id;
+        item.description = [node.type === 'h' ? node.subType.toUpperCase() : '', node.folded ? 'folded' : ''].filter(Boolean).join(' · ');
+        item.tooltip = `${TYPE_NAMES[node.type] ?? node.type} ${node.id}`;
+        item.iconPath = new vscode.ThemeIcon(TYPE_ICONS[node.type] ?? 'symbol-misc');
+        item.contextValue = node.folded ? 'foldedBlock' : FOLDABLE_TYPES.has(node.type) ? 'foldableBlock' : 'block';
+        item.command = { command: 'siyuanfs.outline.reveal', title: 'Reveal Block', arguments: [node] };
+        return item;
+    }
+
+    async getChildren(node?: OutlineNode): Promise<OutlineNode[]> {
+        if (!this.documentUri || !this.documentId) {
+            return [];
+        }
+        if (node?.section) {
+            return node.section;
+        }
+        if (node && !CONTAINER_TYPES.has(node.type)) {
+            return [];
+        }
+
+        try {
+            const parentId = node?.id ?? this.documentId;
+            const children = await this.fs.getClient(this.documentUri.authority).getChildBlocks(parentId);
+            const nodes = children.map(child => this.toNode(child, parentId));
+            return node ? nodes : this.nestSections(nodes);
+        } catch (error: any) {
+            this.logger.error(`Failed to load the outline of ${this.documentUri.path}`, error);
+            return [];
+        }
+    }
+
+    refresh(): void {
+        this.showDocument(this.documentUri, true);
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private async showDocument(uri: vscode.Uri | undefined, force = false): Promise<void> {
+        // Keep showing the last document while another kind of editor, e.g. the output panel, is active
+        if (!uri || !this.fs.isDocumentUri(uri)) {
+            if (!uri) {
+                this.setDocument(undefined);
+            }
+            return;
+        }
+        if (!force && uri.toString() === this.documentUri?.toString()) {
+            return;
+        }
+
+        try {
+            const client = this.fs.getClient(uri.authority);
+            const documentId = await client.getDocumentId(uri.path);
+            const rows = await client.getDocumentBlocks(documentId);
+            this.blocks = new Map(rows.map(row => [row.id, { content: row.content, folded: /\sfold="1"/.test(row.ial) }]));
+            this.setDocument(uri, documentId);
+        } catch (error: any) {
+            this.logger.error(`Failed to load the outline of ${uri.path}`, error);
+            this.setDocument(undefined);
+        }
+    }
+
+    private setDocument(uri: vscode.Uri | undefined, documentId?: string): void {
+        this.documentUri = uri;
+        this.documentId = documentId;
+        vscode.commands.executeCommand('setContext', 'siyuanfs.outlineAvailable', !!uri);
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    private toNode(block: { id: string; type: string; subType?: string }, parentId: string): OutlineNode {
+        const info = this.blocks.get(block.id);
+        const content = info?.content.replace(/\s+/g, ' ').trim() ?? '';
+        return {
+            id: block.id,
+            type: block.type,
+            subType: block.subType ?? '',
+            label: content ? (content.length > MAX_LABEL_LENGTH ? `${content.substring(0, MAX_LABEL_LENGTH)}…` : content) : TYPE_NAMES[block.type] ?? block.type,
+            folded: info?.folded ?? false,
+            parentId
+        };
+    }
+
+    /**
+     * Top-level blocks are a flat list, put the blocks of each heading's section below it
+     */
+    private nestSections(nodes: OutlineNode[]): OutlineNode[] {
+        const roots: OutlineNode[] = [];
+        const headings: Array<{ level: number; node: OutlineNode }> = [];
+        for (const node of nodes) {
+            const level = node.type === 'h' ? parseInt(node.subType.substring(1)) || 1 : Infinity;
+            while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+                headings.pop();
+            }
+            const parent = headings[headings.length - 1]?.node;
+            (parent ? parent.section! : roots).push(node);
+            if (node.type === 'h') {
+                node.section = [];
+                headings.push({ level, node });
+            }
+        }
+        return roots;
+    }
+
+    private async reveal(node: OutlineNode): Promise<void> {
+        if (!this.documentUri) {
+            return;
+        }
+        try {
+            if (!await revealBlock(this.fs, this.documentUri, node.id)) {
+                vscode.window.showInformationMessage('The block is not in the editor yet, save or reload the document first');
+            }
+        } catch (error: any) {
+            this.logger.error(`Failed to reveal block ${node.id}`, error);
+            vscode.window.showErrorMessage(`Failed to reveal block: ${error.message}`);
+        }
+    }
+
+    private async fold(node: OutlineNode, fold: boolean): Promise<void> {
+        await this.changeBlock(`Failed to ${fold ? 'fold' : 'unfold'} block`, client => client.foldBlock(node.id, fold));
+    }
+
+    private async copyRef(node: OutlineNode): Promise<void> {
+        const content = this.blocks.get(node.id)?.content || node.label;
+        await vscode.env.clipboard.writeText(formatBlockRef(node.id, content.substring(0, MAX_LABEL_LENGTH)));
+        vscode.window.setStatusBarMessage('Block reference copied', 3000);
+    }
+
+    /**
+     * Move a block to another position among its siblings
+     */
+    private async move(node: OutlineNode): Promise<void> {
+        if (!this.documentUri) {
+            return;
+        }
+        const client = this.fs.getClient(this.documentUri.authority);
+        let siblings: OutlineNode[];
+        try {
+            siblings = (await client.getChildBlocks(node.parentId)).map(child => this.toNode(child, node.parentId));
+        } catch (error: any) {
+            this.logger.error(`Failed to list the siblings of ${node.id}`, error);
+            vscode.window.showErrorMessage(`Failed to move block: ${error.message}`);
+            return;
+        }
+
+        const index = siblings.findIndex(sibling => sibling.id === node.id);
+        const targets = [
+            ...(index !== 0 ? [{ label: '$(arrow-up) To the beginning', target: { parentId: node.parentId } }] : []),
+            ...siblings
+                .filter((sibling, i) => sibling.id !== node.id && i !== index - 1)
+                .map(sibling => ({ label: `After: ${sibling.label}`, description: TYPE_NAMES[sibling.type], target: { previousId: sibling.id } }))
+        ];
+        const picked = await vscode.window.showQuickPick(targets, { placeHolder: `Move '${node.label}'` });
+        if (picked) {
+            await this.changeBlock('Failed to move block', blockClient => blockClient.moveBlock(node.id, picked.target));
+        }
+    }
+
+    /**
+     * Apply a change to a block of the shown document, then have the document and the outline reloaded
+     */
+    private async changeBlock(failure: string, change: (client: SiYuanFSHttpClient) => Promise<void>): Promise<void> {
+        const uri = this.documentUri;
+        if (!uri) {
+            return;
+        }
+        try {
+            this.fs.assertWritable(uri);
+            await change(this.fs.getClient(uri.authority));
+            this.fs.reportChange(uri);
+        } catch (error: any) {
+            this.logger.error(failure, error);
+            vscode.window.showErrorMessage(`${failure}: ${error.message}`);
+        }
+    }
+}
@@ -0,0 +1,207 @@
+// ABOUTME: Resolves human-readable SiYuan paths to notebook and document IDs through a shared cache
+
+import { escapeSqlString } from './utils';
+import { decodeDocumentTitle, formatNotebookName, formatSiblingNames, parseDocumentName } from './documentNames';
+
+export interface ResolvedDocument {
+    id: string;
+    notebookId: string;
+    path: string; // storage path with IDs, e.g. '/20210917220500-sz588nq/20210917220056-yxtyl7i.sy'
+    hpath: string; // human-readable path inside the notebook, e.g. '/foo/bar'
+}
+
+interface DocumentRow {
+    id: string;
+    path: string;
+    hpath: string;
+    content: string; // the document title
+}
+
+export class PathResolver {
+    private notebooks = new Map<string, string>(); // notebook name -> id
+    private documents = new Map<string, ResolvedDocument>(); // `${notebookId}/${display names}` -> document
+
+    constructor(
+        private query: <T>(stmt: string) => Promise<T[]>,
+        private listNotebooks: () => Promise<Array<{ id: string; name: string }>>
+    ) { }
+
+    /**
+     * Replace the known notebooks, e.g. with a fresh lsNotebooks result
+     */
+    setNotebooks(notebooks: Array<{ id: string; name: string }>): void {
+        this.notebooks.clear();
+        notebooks.forEach(notebook => this.notebooks.set(notebook.name, notebook.id));
+    }
+
+    /**
+     * @param name Notebook name as stored in SiYuan
+     */
+    setNotebook(name: string, id: string): void {
+        this.notebooks.set(name, id);
+    }
+
+    /**
+     * @param displayName Notebook name as shown in the explorer, i.e. with unsafe characters encoded
+     */
+    async getNotebookId(displayName: string): Promise<string | undefined> {
+        const name = decodeDocumentTitle(displayName);
+        if (!this.notebooks.has(name)) {
+            this.setNotebooks(await this.listNotebooks());
+        }
+        return this.notebooks.get(name);
+    }
+
+    /**
+     * @returns Notebook name as shown in the explorer, i.e. with unsafe characters encoded
+     */
+    async getNotebookName(id: string): Promise<string | undefined> {
+        const findName = () => [...this.notebooks].find(([, notebookId]) => notebookId === id)?.[0];
+        if (findName() === undefined) {
+            this.setNotebooks(await this.listNotebooks());
+        }
+        const name = findName();
+        return name === undefined ? undefined : formatNotebookName(name);
+    }
+
+    /**
+     * Resolve a document from the display names of its path with a single query on the blocks
+     * table, or two when a name carries an ID suffix
+     * @param names Display names below the notebook (e.g., ['foo', 'bar (20210917220056-yxtyl7i)'])
+     * @returns Every matching document, more than one means the path is ambiguous
+     */
+    async resolveDocument(notebookId: string, names: string[]): Promise<ResolvedDocument[]> {
+        const key = `${notebookId}/${names.join('/')}`;
+        const cached = this.documents.get(key);
+        if (cached) {
+            return [cached];
+        }
+
+        const box = escapeSqlString(notebookId);
+        const parsed = names.map(name => parseDocumentName(name));
+        const titles = parsed.map(name => name.title);
+        let rows: DocumentRow[] | undefined;
+
+        // The deepest name with an ID suffix pins the document exactly, only the rest is looked up by hpath
+        const anchorIndex = parsed.map(name => name.id !== undefined).lastIndexOf(true);
+        if (anchorIndex !== -1) {
+            const anchorRows = await this.query<DocumentRow>(
+                `SELECT id, path, hpath, content FROM blocks WHERE type = 'd' AND box = '${box}' AND id = '${escapeSqlString(parsed[anchorIndex].id!)}'`
+            );
+            const anchor = anchorRows.find(row => this.matchesTitles(row, titles.slice(0, anchorIndex + 1)));
+            if (anchor && anchorIndex === names.length - 1) {
+                rows = [anchor];
+            } else if (anchor) {
+                const hpath = `${anchor.hpath}/${titles.slice(anchorIndex + 1).join('/')}`;
+                const childPrefix = anchor.path.replace(/\.sy$/, '');
+                rows = await this.query<DocumentRow>(
+                    `SELECT id, path, hpath, content FROM blocks WHERE type = 'd' AND box = '${box}' AND hpath = '${escapeSqlString(hpath)}' AND path LIKE '${escapeSqlString(childPrefix)}/%' LIMIT 64`
+                );
+            } else {
+                // A title that merely looks like an ID suffix
+                titles[anchorIndex] = decodeDocumentTitle(names[anchorIndex]);
+            }
+        }
+
+        if (!rows) {
+            rows = await this.query<DocumentRow>(
+                `SELECT id, path, hpath, content FROM blocks WHERE type = 'd' AND box = '${box}' AND hpath = '${escapeSqlString(`/${titles.join('/')}`)}' LIMIT 64`
+            );
+        }
+
+        const documents = rows
+            .filter(row => this.matchesTitles(row, titles))
+            .map(row => ({ id: row.id, notebookId, path: row.path, hpath: row.hpath }));
+        if (documents.length === 1) {
+            this.documents.set(key, documents[0]);
+        }
+        return documents;
+    }
+
+    /**
+     * Build the display names of a document's path, disambiguating titles shared with siblings
+     * @param path Storage path of the document (e.g., '/20210917220500-sz588nq/20210917220056-yxtyl7i.sy')
+     * @returns Display names from the notebook root down to the document
+     */
+    async getDisplayNames(notebookId: string, path: string): Promise<string[]> {
+        const box = escapeSqlString(notebookId);
+        const ids = path.replace(/\.sy$/, '').split('/').filter(Boolean);
+        const ancestors = await this.query<DocumentRow>(
+            `SELECT id, path, hpath, content FROM blocks WHERE type = 'd' AND box = '${box}' AND id IN (${ids.map(id => `'${escapeSqlString(id)}'`).join(', ')})`
+        );
+        const hpaths = [...new Set(ancestors.map(row => `'${escapeSqlString(row.hpath)}'`))];
+        const sameTitled = await this.query<DocumentRow>(
+            `SELECT id, path, hpath, content FROM blocks WHERE type = 'd' AND box = '${box}' AND hpath IN (${hpaths.join(', ')}) LIMIT 1024`
+        );
+
+        const names = formatSiblingNames(sameTitled.map(row => ({ id: row.id, path: row.path, title: row.content })));
+        return ids.map(id => {
+            const name = names.get(id);
+            if (name === undefined) {
+                throw new Error(`Cannot find document: ${id}`);
+            }
+            return name;
+        });
+    }
+
+    /**
+     * Build the display names of several documents' paths at once, with two queries in all
+     * @param docs Notebook ID and storage path of each document
+     * @returns Storage path -> display names from the notebook root down, for the documents whose
+     * ancestors are all in the index
+     */
+    async getAllDisplayNames(docs: Array<{ box: string; path: string }>): Promise<Map<string, string[]>> {
+        const pathIds = (path: string) => path.replace(/\.sy$/, '').split('/').filter(Boolean);
+        const ids = [...new Set(docs.flatMap(doc => pathIds(doc.path)))];
+        if (ids.length === 0) {
+            return new Map();
+        }
+        const ancestors = await this.query<DocumentRow & { box: string }>(
+            `SELECT id, box, path, hpath, content FROM blocks WHERE type = 'd' AND id IN (${ids.map(id => `'${escapeSqlString(id)}'`).join(', ')}) LIMIT ${ids.length}`
+        );
+        const boxes = [...new Set(ancestors.map(row => `'${escapeSqlString(row.box)}'`))];
+        const hpaths = [...new Set(ancestors.map(row => `'${escapeSqlString(row.hpath)}'`))];
+        const sameTitled = ancestors.length === 0 ? [] : await this.query<DocumentRow & { box: string }>(
+            `SELECT id, box, path, hpath, content FROM blocks WHERE type = 'd' AND box IN (${boxes.join(', ')}) AND hpath IN (${hpaths.join(', ')}) LIMIT 100000`
+        );
+
+        // Sibling names are only unique within a notebook
+        const names = new Map<string, string>();
+        for (const box of new Set(sameTitled.map(row => row.box))) {
+            const siblings = sameTitled.filter(row => row.box === box).map(row => ({ id: row.id, path: row.path, title: row.content }));
+            formatSiblingNames(siblings).forEach((name, id) => names.set(id, name));
+        }
+
+        const result = new Map<string, string[]>();
+        for (const doc of docs) {
+            const segments = pathIds(doc.path).map(id => names.get(id));
+            if (segments.every(name => name !== undefined)) {
+                result.set(doc.path, segments as string[]);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Forget a document and everything below it, e.g. after it was renamed, moved or removed
+     */
+    invalidateDocument(id: string): void {
+        for (const [key, document] of this.documents) {
+            if (document.id === id || document.path.includes(`/${id}/`)) {
+                this.documents.delete(key);
+            }
+        }
+    }
+
+    clear(): void {
+        this.notebooks.clear();
+        this.documents.clear();
+    }
+
+    /**
+     * Whether a document sits at the depth of the given titles and carries the last one
+     */
+    private matchesTitles(row: DocumentRow, titles: string[]): boolean {
+        return row.path.split('/').filter(Boolean).length === titles.length && row.content === titles[titles.length - 1];
+    }
+}
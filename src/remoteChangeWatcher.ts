@@ -0,0 +1,247 @@
+// ABOUTME: Polls SiYuan for documents changed outside VS Code and reports them as file change events
+
+import * as vscode from 'vscode';
+import { DEFAULT_MAX_POLL_INTERVAL, DEFAULT_POLL_INTERVAL, SIYUANFS_SCHEME, SiYuanFSConfig } from './constants';
+import { SiYuanFSHttpClient } from './SiYuanFSHttpClient';
+import { Logger } from './logger';
+
+// Paths of all documents are compared on every this many polls, they change much less often than content
+const PATH_COMPARISON_POLLS = 6;
+
+interface WatchRequest {
+    uri: vscode.Uri;
+    recursive: boolean;
+}
+
+export class RemoteChangeWatcher implements vscode.Disposable {
+    private logger: Logger;
+    private watches = new Set<WatchRequest>();
+    private localChanges = new Map<string, number>(); // path -> time until which remote changes are ours
+    private lastUpdated?: string; // newest SiYuan `updated` timestamp seen so far
+    private seenAtLastUpdated = new Set<string>(); // IDs of the documents already seen at lastUpdated, which the next poll lists again
+    private documents?: Map<string, string>; // ID -> path (without .md) of the watched documents at the last comparison
+    private pollsSinceComparison = 0;
+    private interval: number;
+    private timer?: NodeJS.Timeout;
+    private polling = false;
+
+    /**
+     * @param authority Authority of the URIs reported for this connection
+     */
+    constructor(
+        private authority: string,
+        private getClient: () => SiYuanFSHttpClient,
+        private getConfig: () => SiYuanFSConfig,
+        private fire: (...events: vscode.FileChangeEvent[]) => void
+    ) {
+        this.logger = Logger.getInstance();
+        this.interval = this.baseInterval();
+    }
+
+    watch(uri: vscode.Uri, options: { recursive: boolean }): vscode.Disposable {
+        const request: WatchRequest = { uri, recursive: options.recursive };
+        this.watches.add(request);
+        this.schedule(0);
+
+        return new vscode.Disposable(() => {
+            this.watches.delete(request);
+            if (this.watches.size === 0) {
+                this.stop();
+            }
+        });
+    }
+
+    /**
+     * Remember a change made through this extension, so the next poll doesn't report it back
+     * @param path Human-readable path of the document (without .md)
+     */
+    markLocalChange(path: string): void {
+        this.localChanges.set(path, Date.now() + this.interval * 2);
+    }
+
+    /**
+     * Remember a document renamed, moved or deleted through this extension. Paths are compared
+     * less often than local changes are remembered, so it is dropped from the last comparison instead.
+     * @param path Human-readable path of the document (without .md)
+     */
+    markLocalRemoval(path: string): void {
+        this.markLocalChange(path);
+        for (const [id, documentPath] of this.documents ?? []) {
+            if (documentPath === path || documentPath.startsWith(`${path}/`)) {
+                this.documents!.delete(id);
+            }
+        }
+    }
+
+    /**
+     * Forget the polling baseline, e.g. after switching to another server
+     */
+    reset(): void {
+        this.stop();
+        this.lastUpdated = undefined;
+        this.seenAtLastUpdated.clear();
+        this.documents = undefined;
+        this.pollsSinceComparison = 0;
+        this.interval = this.baseInterval();
+        if (this.watches.size > 0) {
+            this.schedule(0);
+        }
+    }
+
+    dispose(): void {
+        this.stop();
+        this.watches.clear();
+    }
+
+    private baseInterval(): number {
+        return this.getConfig().pollInterval ?? DEFAULT_POLL_INTERVAL;
+    }
+
+    private schedule(delay: number): void {
+        if (this.baseInterval() <= 0 || this.polling || this.timer) {
+            return;
+        }
+        this.timer = setTimeout(() => this.poll(), delay);
+    }
+
+    private stop(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private async poll(): Promise<void> {
+        this.timer = undefined;
+        this.polling = true;
+        try {
+            const client = this.getClient();
+            if (this.lastUpdated === undefined) {
+                this.lastUpdated = await client.getLatestUpdated();
+                if (this.lastUpdated) {
+                    this.seenAtLastUpdated = new Set((await client.listChangedDocs(this.lastUpdated)).map(doc => doc.id));
+                }
+                this.documents = this.filterWatched(await client.listDocumentPaths());
+            } else {
+                const since = this.lastUpdated;
+                const changedDocs = await client.listChangedDocs(since);
+                const events: vscode.FileChangeEvent[] = [];
+                if (++this.pollsSinceComparison >= PATH_COMPARISON_POLLS) {
+                    events.push(...this.compareDocuments(client, await client.listDocumentPaths()));
+                    this.pollsSinceComparison = 0;
+                }
+
+                for (const doc of changedDocs) {
+                    if (doc.updated > this.lastUpdated) {
+                        this.lastUpdated = doc.updated;
+                    }
+                    // Documents updated in the second of the last poll are listed again
+                    if (doc.updated === since && this.seenAtLastUpdated.has(doc.id)) {
+                        continue;
+                    }
+                    if ((this.localChanges.get(doc.path) ?? 0) > Date.now()) {
+                        continue;
+                    }
+                    events.push(...this.toEvents(doc.path, doc.created > since));
+                }
+                this.seenAtLastUpdated = new Set(changedDocs.filter(doc => doc.updated === this.lastUpdated).map(doc => doc.id));
+
+                const watchedEvents = events.filter(event => this.isWatched(event.uri));
+                if (watchedEvents.length > 0) {
+                    this.logger.debug('Remote changes detected', watchedEvents.map(event => event.uri.path));
+                    this.fire(...watchedEvents);
+                }
+            }
+
+            this.interval = this.baseInterval();
+        } catch (error) {
+            const maxInterval = this.getConfig().maxPollInterval ?? DEFAULT_MAX_POLL_INTERVAL;
+            this.interval = Math.min(this.interval * 2, Math.max(maxInterval, this.baseInterval()));
+            this.logger.warn(`Polling for remote changes failed, retrying in ${this.interval}ms`, error);
+        }
+
+        for (const [path, until] of this.localChanges) {
+            if (until <= Date.now()) {
+                this.localChanges.delete(path);
+            }
+        }
+
+        this.polling = false;
+        if (this.watches.size > 0) {
+            this.schedule(this.interval);
+        }
+    }
+
+    /**
+     * Events for watched documents that were removed, renamed or moved since the last comparison;
+     * these don't touch the `updated` timestamps. Remembers the watched documents for the next one.
+     * @param current Document ID -> path (without .md) of all documents
+     */
+    private compareDocuments(client: SiYuanFSHttpClient, current: Map<string, string>): vscode.FileChangeEvent[] {
+        const events: vscode.FileChangeEvent[] = [];
+        for (const [id, oldPath] of this.documents ?? []) {
+            const newPath = current.get(id);
+            if (newPath === oldPath) {
+                continue;
+            }
+            // The resolver would keep mapping the old path to the document
+            client.invalidateDocument(id);
+            if ((this.localChanges.get(oldPath) ?? 0) > Date.now()) {
+                continue;
+            }
+            events.push({ type: vscode.FileChangeType.Deleted, uri: this.toUri(`${oldPath}.md`) });
+            // A document with subdocuments is listed as a folder as well
+            if ([...this.documents!.values()].some(path => path.startsWith(`${oldPath}/`))) {
+                events.push({ type: vscode.FileChangeType.Deleted, uri: this.toUri(oldPath) });
+            }
+            if (newPath !== undefined) {
+                events.push({ type: vscode.FileChangeType.Created, uri: this.toUri(`${newPath}.md`) });
+            }
+        }
+        this.documents = this.filterWatched(current);
+        return events;
+    }
+
+    private filterWatched(documents: Map<string, string>): Map<string, string> {
+        return new Map([...documents].filter(([, path]) => this.isWatched(this.toUri(`${path}.md`))));
+    }
+
+    private toUri(path: string): vscode.Uri {
+        return vscode.Uri.from({ scheme: SIYUANFS_SCHEME, authority: this.authority, path });
+    }
+
+    /**
+     * Events for a remotely changed document. A new document also gives its parent
+     * document a directory entry.
+     * @param path Human-readable path of the document (without .md)
+     */
+    private toEvents(path: string, created: boolean): vscode.FileChangeEvent[] {
+        const uri = this.toUri(`${path}.md`);
+        if (!created) {
+            return [{ type: vscode.FileChangeType.Changed, uri }];
+        }
+
+        const events: vscode.FileChangeEvent[] = [{ type: vscode.FileChangeType.Created, uri }];
+        const parentPath = path.substring(0, path.lastIndexOf('/'));
+        if (parentPath.split('/').filter(Boolean).length > 1) {
+            events.push({ type: vscode.FileChangeType.Created, uri: uri.with({ path: parentPath }) });
+        }
+        return events;
+    }
+
+    private isWatched(uri: vscode.Uri): boolean {
+        for (const request of this.watches) {
+            const watchedPath = request.uri.path.replace(/\/+$/, '');
+            if (uri.path === watchedPath) {
+                return true;
+            }
+            if (request.recursive && uri.path.startsWith(`${watchedPath}/`)) {
+                return true;
+            }
+            if (!request.recursive && uri.path.substring(0, uri.path.lastIndexOf('/')) === watchedPath) {
+                return true;
+            }
+        }
+        return false;
+    }
+}
@@ -0,0 +1,95 @@
+// ABOUTME: Lets the user resolve saves rejected because the document was changed in SiYuan meanwhile
+
+import * as vscode from 'vscode';
+import { SIYUANFS_SCHEME, SIYUANFS_SERVER_SCHEME } from './constants';
+import { SiYuanFS } from './siyuanFileSystemProvider';
+import { Logger } from './logger';
+
+export class SaveConflictHandler implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private logger: Logger;
+    private prompting = new Set<string>(); // documents with a conflict prompt already showing
+    private disposables: vscode.Disposable[] = [];
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+
+    readonly onDidChange: vscode.Event<vscode.Uri> = this._onDidChange.event;
+
+    constructor(private fs: SiYuanFS) {
+        this.logger = Logger.getInstance();
+        this.disposables.push(
+            this._onDidChange,
+            fs.onDidDetectConflict(uri => this.prompt(uri)),
+            vscode.workspace.registerTextDocumentContentProvider(SIYUANFS_SERVER_SCHEME, this)
+        );
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        return this.fs.readServerVersion(uri.with({ scheme: SIYUANFS_SCHEME }));
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private async prompt(uri: vscode.Uri): Promise<void> {
+        const key = uri.toString();
+        if (this.prompting.has(key)) {
+            return;
+        }
+        this.prompting.add(key);
+
+        try {
+            const name = uri.path.split('/').pop();
+            let choice: string | undefined;
+            do {
+                choice = await vscode.window.showWarningMessage(
+                    `'${name}' was changed in SiYuan since you opened it. Your changes were not saved.`,
+                    'Compare', 'Overwrite', 'Discard'
+                );
+                if (choice === 'Compare') {
+                    await this.compare(uri);
+                }
+            } while (choice === 'Compare');
+
+            if (choice === 'Overwrite') {
+                await this.overwrite(uri);
+            } else if (choice === 'Discard') {
+                await this.discard(uri);
+            }
+        } catch (error: any) {
+            this.logger.error(`Failed to resolve save conflict: ${uri.path}`, error);
+            vscode.window.showErrorMessage(`Failed to resolve save conflict: ${error.message}`);
+        } finally {
+            this.prompting.delete(key);
+        }
+    }
+
+    /**
+     * Show the server's copy next to the unsaved edits
+     */
+    private async compare(uri: vscode.Uri): Promise<void> {
+        const serverUri = uri.with({ scheme: SIYUANFS_SERVER_SCHEME });
+        this._onDidChange.fire(serverUri); // refresh a diff opened earlier
+        const name = uri.path.split('/').pop();
+        await vscode.commands.executeCommand('vscode.diff', serverUri, uri, `${name} (SiYuan ↔ Yours)`);
+    }
+
+    /**
+     * Save the unsaved edits anyway, replacing the changes made in SiYuan
+     */
+    private async overwrite(uri: vscode.Uri): Promise<void> {
+        this.fs.forgetVersion(uri);
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+        if (document && !await document.save()) {
+            vscode.window.showErrorMessage(`Failed to save '${uri.path.split('/').pop()}'`);
+        }
+    }
+
+    /**
+     * Drop the unsaved edits and load the server's copy
+     */
+    private async discard(uri: vscode.Uri): Promise<void> {
+        const document = await vscode.workspace.openTextDocument(uri);
+        await vscode.window.showTextDocument(document);
+        await vscode.commands.executeCommand('workbench.action.files.revert');
+    }
+}
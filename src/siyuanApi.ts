@@ -2,18 +2,71 @@
 
 import { SiYuanFSConfig, SiYuanFSFile } from './constants';
 import { Logger } from './logger';
-import { logAndThrow } from './utils';
+import { escapeSqlLike, escapeSqlString, logAndThrow } from './utils';
+import { PathResolver } from './pathResolver';
+import { CircuitBreaker } from './circuitBreaker';
+import {
+  BlockDiffPlan,
+  mergeCleanMarkdown,
+  parseKramdown,
+  planBlockDiff,
+  serializeKramdown,
+  toCleanMarkdown,
+} from './kramdown';
+import { decodeDocumentTitle, formatNotebookName, formatSiblingNames, parseDocumentName } from './documentNames';
+import { SiYuanConflictError, SiYuanError, SiYuanNotFoundError, siyuanErrorFromResponse } from './siyuanErrors';
+
+// Endpoints that only read, so a request that failed on the way can safely be sent again
+const IDEMPOTENT_ENDPOINTS = new Set([
+  '/api/notebook/lsNotebooks',
+  '/api/filetree/listDocsByPath',
+  '/api/filetree/getIDsByHPath',
+  '/api/block/getBlockKramdown',
+  '/api/attr/getBlockAttrs',
+  '/api/query/sql',
+  '/api/file/readDir',
+  '/api/file/getFile',
+]);
+const RETRY_ATTEMPTS = 3;
+const RETRY_DELAY = 500; // doubled for every further attempt
+// Block attribute marking a document created as a folder, so it is listed as one while it has no subdocuments
+const FOLDER_ATTRIBUTE = 'custom-siyuanfs-folder';
+
+/**
+ * The server couldn't be reached or failed to answer, as opposed to answering with an error
+ */
+export class TransportError extends Error {}
+
+/**
+ * A response read in full while the request's timeout was running
+ */
+interface BufferedResponse {
+  status: number;
+  body: Uint8Array;
+  text(): string;
+}
+
+export interface WorkspaceEntry {
+  name: string;
+  isDir: boolean;
+  isSymlink: boolean;
+  updated: number; // seconds since the epoch
+}
 
 export class SiYuanApiClient {
   private config: SiYuanFSConfig;
   private logger: Logger;
-  private notebookCache: Map<string, string>; // notebook name -> id mapping
-  private notebooksLoaded: boolean = false;
+  private resolver: PathResolver; // notebook and hpath -> ID cache
+  private breaker: CircuitBreaker; // fails fast while the server is unreachable
 
   constructor(config: SiYuanFSConfig) {
     this.config = config;
     this.logger = Logger.getInstance();
-    this.notebookCache = new Map();
+    this.resolver = new PathResolver(
+      (stmt) => this.query(stmt),
+      () => this.lsNotebooks(),
+    );
+    this.breaker = new CircuitBreaker(config.baseUrl);
   }
 
   // File operations
@@ -39,18 +92,15 @@ export class SiYuanApiClient {
       }>('/api/notebook/lsNotebooks');
       if (response && response.data && Array.isArray(response.data.notebooks)) {
         // Cache notebook name -> id mapping
-        this.notebookCache.clear();
-        response.data.notebooks.forEach((notebook) => {
-          this.notebookCache.set(notebook.name, notebook.id);
-        });
-        this.notebooksLoaded = true;
+        this.resolver.setNotebooks(response.data.notebooks);
 
         const result = response.data.notebooks.map((notebook) => ({
-          name: notebook.name,
+          name: formatNotebookName(notebook.name),
           type: 'directory' as const,
           size: 0,
           ctime: paserIdDate(notebook.id).getTime(),
           mtime: paserIdDate(notebook.id).getTime(),
+          closed: notebook.closed,
         }));
         return result;
       }
@@ -83,12 +133,19 @@ export class SiYuanApiClient {
 
       if (response?.code === 0 && response?.data?.files) {
         const result: SiYuanFSFile[] = [];
+        const folderDocIds = await this.getFolderDocIds(
+          response.data.files.filter((file) => !file.subFileCount).map((file) => file.id),
+        );
+        // Siblings sharing a title get their ID appended, so each of them stays reachable
+        const names = formatSiblingNames(
+          response.data.files.map((file) => ({ id: file.id, path: file.path, title: file.name.replace(/\.sy$/, '') })),
+        );
 
         // For directory queries, we already queried the target document, so just return its subdocuments
         if (isFolderPath) {
           // Return the subdocuments directly
           response.data.files.forEach((file) => {
-            const displayName = file.name.replace('.sy', '') + '.md';
+            const displayName = names.get(file.id) + '.md';
             result.push({
               name: displayName,
               type: 'file' as const,
@@ -98,9 +155,12 @@ export class SiYuanApiClient {
             });
 
             // If subdocument has its own subdocuments, add as folder too
-            if (file.subFileCount !== undefined && file.subFileCount > 0) {
+            if (
+              (file.subFileCount !== undefined && file.subFileCount > 0) ||
+              folderDocIds.has(file.id)
+            ) {
               result.push({
-                name: displayName.replace('.md', ''),
+                name: names.get(file.id)!,
                 type: 'directory' as const,
                 size: 0,
                 ctime: file.ctime * 1000,
@@ -111,7 +171,7 @@ export class SiYuanApiClient {
         } else {
           // Normal file query - return both files and folders
           response.data.files.forEach((file) => {
-            const displayName = file.name.replace('.sy', '') + '.md';
+            const displayName = names.get(file.id) + '.md';
             result.push({
               name: displayName,
               type: 'file' as const,
@@ -121,9 +181,12 @@ export class SiYuanApiClient {
             });
 
             // If it has subFileCount > 0, also add it as a folder
-            if (file.subFileCount !== undefined && file.subFileCount > 0) {
+            if (
+              (file.subFileCount !== undefined && file.subFileCount > 0) ||
+              folderDocIds.has(file.id)
+            ) {
               result.push({
-                name: displayName.replace('.md', ''), // Remove .md extension for directory
+                name: names.get(file.id)!, // Without .md extension for directory
                 type: 'directory' as const,
                 size: 0,
                 ctime: file.ctime * 1000,
@@ -141,16 +204,10 @@ export class SiYuanApiClient {
 
   async getFileContent(path: string): Promise<string> {
     const blockId = await this.getBlockIdFromPath(path);
+    const kramdown = await this.getBlockKramdown(blockId);
 
-    const response = await this.request<{
-      data: {
-        id: string;
-        kramdown: string;
-      };
-    }>('/api/block/getBlockKramdown', { id: blockId });
-
-    this.logger.debug('getBlockKramdown', { blockId, md: response.data.kramdown });
-    return response.data.kramdown;
+    this.logger.debug('getBlockKramdown', { blockId, md: kramdown });
+    return this.config.editMode === 'markdown' ? toCleanMarkdown(kramdown) : kramdown;
   }
 
   async setFileContent(
@@ -160,40 +217,452 @@ export class SiYuanApiClient {
   ): Promise<void> {
     this.logger.debug('🧨setFileContent', { path, content, options });
 
-    // For updating existing files, use updateBlock API
+    // For updating existing files, only send the blocks that changed
     if (options?.overwrite) {
       const blockId = await this.getBlockIdFromPath(path);
+      const current = parseKramdown(await this.getBlockKramdown(blockId));
+
+      // In clean mode the IALs were hidden on read, put them back from the server's copy
+      const target =
+        this.config.editMode === 'markdown'
+          ? mergeCleanMarkdown(serializeKramdown(current), content)
+          : parseKramdown(content);
+
+      // Blocks can only be matched by ID, anything else replaces the whole document
+      if (current.blocks.some((block) => !block.id)) {
+        await this.blockOperation('/api/block/updateBlock', {
+          dataType: 'markdown',
+          id: blockId,
+          data: serializeKramdown(target),
+        });
+      } else {
+        await this.applyBlockDiff(blockId, planBlockDiff(current, target));
+      }
+      await this.flushTransaction();
+      return;
+    }
 
-      await this.request('/api/block/updateBlock', {
-        dataType: 'markdown',
-        id: blockId,
-        data: content,
-      });
+    if (options?.create) {
+      await this.createFile(path, content);
       return;
     }
 
-    // For creating new files, this will be implemented later
-    throw new Error('Create new file not implemented yet');
+    throw new SiYuanNotFoundError(`File not found: ${path}`);
   }
 
+  /**
+   * Create a document at a human-readable path, creating missing parent documents first
+   * @param path Human-readable path (e.g., '/notebook/doc/subdoc.md')
+   * @param content Markdown body of the new document
+   * @returns Human-readable paths (without .md) of every created document, outermost first
+   */
+  async createFile(path: string, content: string): Promise<string[]> {
+    const pathParts = path.split('/').filter(Boolean);
+    if (pathParts.length < 2) {
+      logAndThrow(this.logger, `Cannot create a document outside of a notebook: ${path}`);
+    }
+
+    const docPath = path.replace(/\.md$/, '');
+    const created = await this.ensureParentDocs(docPath);
+
+    const parentPath = docPath.substring(0, docPath.lastIndexOf('/'));
+    await this.createDocument(parentPath, parseDocumentName(pathParts[pathParts.length - 1].replace(/\.md$/, '')).title, content);
+    created.push(docPath);
+
+    await this.flushTransaction();
+    return created;
+  }
+
+  /**
+   * Rename or move a document in place, keeping its block ID and its subdocuments
+   * @param oldPath Current human-readable path (e.g., '/notebook/doc.md')
+   * @param newPath Target human-readable path (e.g., '/other/parent/renamed.md')
+   * @param options.overwrite Remove an existing document at the target first
+   * @returns Human-readable paths (without .md) of parent documents created for the target
+   */
+  async renameFile(oldPath: string, newPath: string, options?: { overwrite?: boolean }): Promise<string[]> {
+    const oldParts = oldPath.split('/').filter(Boolean).map((part) => part.replace(/\.md$/, ''));
+    const newParts = newPath.split('/').filter(Boolean).map((part) => part.replace(/\.md$/, ''));
+    if (oldParts.length < 2 || newParts.length < 2) {
+      logAndThrow(this.logger, `Renaming notebooks is not supported: ${oldPath}`);
+    }
+
+    const docId = await this.getBlockIdFromPath(oldPath);
+    const sameLocation = oldParts.join('/') === newParts.join('/');
+    if (!sameLocation && (await this.documentExists(newPath))) {
+      if (!options?.overwrite) {
+        throw new SiYuanConflictError(`File exists: ${newPath}`);
+      }
+      const targetId = await this.getBlockIdFromPath(newPath);
+      await this.removeDocByID(targetId);
+      this.resolver.invalidateDocument(targetId);
+    }
+
+    const created: string[] = [];
+    const oldParentParts = oldParts.slice(0, -1);
+    const newParentParts = newParts.slice(0, -1);
+    if (oldParentParts.join('/') !== newParentParts.join('/')) {
+      const { notebookId } = await this.convertPathToRealPath(`/${newParts[0]}`);
+      created.push(...(await this.ensureParentDocs(`/${newParts.join('/')}`)));
+
+      // Moving to the notebook root targets the notebook ID, otherwise the new parent document
+      const toId =
+        newParentParts.length === 1
+          ? notebookId
+          : await this.getBlockIdFromPath(`/${newParentParts.join('/')}`);
+      await this.moveDocsByID([docId], toId);
+    }
+
+    const newTitle = parseDocumentName(newParts[newParts.length - 1]).title;
+    if (parseDocumentName(oldParts[oldParts.length - 1]).title !== newTitle) {
+      await this.renameDocByID(docId, newTitle);
+    }
+    this.resolver.invalidateDocument(docId);
+
+    await this.flushTransaction();
+    return created;
+  }
+
+  /**
+   * Check whether a document has subdocuments, i.e. whether listFiles shows it as a directory too
+   * @param path Human-readable path (e.g., '/notebook/doc.md')
+   */
+  async hasChildDocs(path: string): Promise<boolean> {
+    const { notebookId, realPath } = await this.convertPathToRealPath(path);
+    const childPrefix = realPath === '/' ? '' : realPath.replace(/\.sy$/, '');
+
+    const response = await this.request<{
+      code: number;
+      msg: string;
+      data: Array<{ id: string }>;
+    }>('/api/query/sql', {
+      stmt: `SELECT id FROM blocks WHERE type = 'd' AND box = '${notebookId}' AND path LIKE '${childPrefix}/%' LIMIT 1`,
+    });
+
+    return response?.code === 0 && Array.isArray(response.data) && response.data.length > 0;
+  }
+
+  /**
+   * Check whether a human-readable path points to an existing notebook or document
+   * @param path Human-readable path (e.g., '/notebook/doc.md')
+   */
+  async documentExists(path: string): Promise<boolean> {
+    const pathParts = path.split('/').filter(Boolean);
+    if (pathParts.length === 0) {
+      return true;
+    }
+
+    const notebookId = await this.resolver.getNotebookId(pathParts[0]);
+    if (!notebookId) {
+      return false;
+    }
+    if (pathParts.length === 1) {
+      return true;
+    }
+
+    const names = pathParts.slice(1).map((part, i) => (i === pathParts.length - 2 ? part.replace(/\.md$/, '') : part));
+    return (await this.resolver.resolveDocument(notebookId, names)).length > 0;
+  }
+
+  async createDocWithMd(notebookId: string, hPath: string, markdown: string): Promise<string> {
+    const response = await this.request<{
+      code: number;
+      msg: string;
+      data: string;
+    }>('/api/filetree/createDocWithMd', {
+      notebook: notebookId,
+      path: hPath,
+      markdown,
+    });
+
+    if (response?.code === 0 && response.data) {
+      return response.data;
+    }
+
+    logAndThrow(this.logger, response?.msg || `Failed to create document: ${hPath}`);
+  }
+
+  /**
+   * Apply a block diff to a document, touching only the blocks that were added, removed, moved or edited
+   * @param docId ID of the document block
+   */
+  async applyBlockDiff(docId: string, plan: BlockDiffPlan): Promise<void> {
+    this.logger.debug('applyBlockDiff', {
+      docId,
+      deleted: plan.deleted.length,
+      inserted: plan.blocks.filter((block) => !block.id).length,
+      moved: plan.blocks.filter((block) => block.moved).length,
+      changed: plan.blocks.filter((block) => block.changed).length,
+    });
+
+    for (const id of plan.deleted) {
+      await this.blockOperation('/api/block/deleteBlock', { id });
+    }
+
+    let previousId: string | undefined;
+    for (const block of plan.blocks) {
+      if (!block.id) {
+        const endpoint = previousId ? '/api/block/insertBlock' : '/api/block/prependBlock';
+        const insertedId = previousId
+          ? await this.blockOperation(endpoint, { dataType: 'markdown', data: block.data, previousID: previousId })
+          : await this.blockOperation(endpoint, { dataType: 'markdown', data: block.data, parentID: docId });
+        // Without the new block's ID the next block has no anchor and would end up at the top
+        if (!insertedId) {
+          throw new SiYuanError(`SiYuan returned no ID for an inserted block, stopped saving ${docId} before misplacing the blocks after it`, undefined, endpoint);
+        }
+        previousId = insertedId;
+        continue;
+      }
+
+      if (block.moved) {
+        await this.blockOperation('/api/block/moveBlock', { id: block.id, previousID: previousId || '', parentID: docId });
+      }
+      if (block.changed) {
+        await this.blockOperation('/api/block/updateBlock', { dataType: 'markdown', data: block.data, id: block.id });
+      }
+      previousId = block.id;
+    }
+  }
+
+  /**
+   * Run a block transaction endpoint
+   * @returns ID of the block the first operation applied to, or undefined if the server reported none
+   */
+  private async blockOperation(endpoint: string, data: Record<string, string>): Promise<string | undefined> {
+    const response = await this.request<{
+      code: number;
+      msg: string;
+      data: Array<{ doOperations: Array<{ id: string }> | null }> | null;
+    }>(endpoint, data);
+
+    return response.data?.[0]?.doOperations?.[0]?.id || data.id || undefined;
+  }
+
+  async getBlockKramdown(id: string): Promise<string> {
+    const response = await this.request<{
+      data: {
+        id: string;
+        kramdown: string;
+      };
+    }>('/api/block/getBlockKramdown', { id });
+
+    return response.data.kramdown;
+  }
+
+  /**
+   * Child blocks in document order. The children of a document are its top-level blocks, those of
+   * a list its items and those of a super block or quote the blocks inside.
+   */
+  async getChildBlocks(id: string): Promise<Array<{ id: string; type: string; subType?: string }>> {
+    const response = await this.request<{
+      code: number;
+      msg: string;
+      data: Array<{ id: string; type: string; subType?: string }> | null;
+    }>('/api/block/getChildBlocks', { id });
+    return response.data || [];
+  }
+
+  /**
+   * Type, plain-text content and IAL of every block in a document
+   */
+  async getDocumentBlocks(
+    docId: string,
+  ): Promise<Array<{ id: string; type: string; subtype: string; content: string; ial: string }>> {
+    return this.query(`SELECT id, type, subtype, content, ial FROM blocks WHERE root_id = '${docId}' LIMIT 10000`);
+  }
+
+  async foldBlock(id: string, fold: boolean): Promise<void> {
+    await this.request(fold ? '/api/block/foldBlock' : '/api/block/unfoldBlock', { id });
+    await this.flushTransaction();
+  }
+
+  /**
+   * Move a block after another block, or to the start of a parent block
+   */
+  async moveBlock(id: string, target: { previousId?: string; parentId?: string }): Promise<void> {
+    await this.blockOperation('/api/block/moveBlock', {
+      id,
+      previousID: target.previousId || '',
+      parentID: target.parentId || '',
+    });
+    await this.flushTransaction();
+  }
+
+  async renameDocByID(id: string, title: string): Promise<void> {
+    await this.request('/api/filetree/renameDocByID', {
+      id,
+      title,
+    });
+  }
+
+  async moveDocsByID(fromIDs: string[], toID: string): Promise<void> {
+    await this.request('/api/filetree/moveDocsByID', {
+      fromIDs,
+      toID,
+    });
+  }
+
+  async removeDocByID(id: string): Promise<void> {
+    await this.request('/api/filetree/removeDocByID', { id });
+  }
+
+  /**
+   * Wait for pending database writes, so SQL queries right after a mutation see the new state
+   */
+  async flushTransaction(): Promise<void> {
+    await this.request('/api/sqlite/flushTransaction');
+  }
+
+  /**
+   * Remove a document together with all of its subdocuments
+   * @param path Human-readable path (e.g., '/notebook/doc.md' or its directory view '/notebook/doc')
+   */
   async removeFile(path: string): Promise<void> {
-    // Handle .md files by converting to .sy for processing
-    let processingPath = path;
-    if (path.endsWith('.md')) {
-      processingPath = path.slice(0, -3) + '.sy';
+    if (path.split('/').filter(Boolean).length < 2) {
+      logAndThrow(this.logger, `Removing notebooks is not supported: ${path}`);
+    }
+
+    const blockId = await this.getBlockIdFromPath(path);
+    await this.removeDocByID(blockId);
+    this.resolver.invalidateDocument(blockId);
+    await this.flushTransaction();
+  }
+
+  /**
+   * List every document below a document, at any depth
+   * @param path Human-readable path (e.g., '/notebook/doc.md')
+   * @returns Human-readable paths (without .md) of the descendants
+   */
+  async listDescendantDocs(path: string): Promise<string[]> {
+    const { notebookId, realPath } = await this.convertPathToRealPath(path);
+    const childPrefix = realPath === '/' ? '' : realPath.replace(/\.sy$/, '');
+
+    const rows = await this.query<{ id: string; path: string; content: string }>(
+      `SELECT id, path, content FROM blocks WHERE type = 'd' AND box = '${notebookId}' AND path LIKE '${childPrefix}/%' LIMIT 100000`,
+    );
+
+    // Every sibling of a descendant is a descendant too, so duplicates can be told apart locally
+    const names = formatSiblingNames(rows.map((row) => ({ id: row.id, path: row.path, title: row.content })));
+    const basePath = path.replace(/\.md$/, '');
+    return rows.map((row) => {
+      const ids = row.path.slice(childPrefix.length).replace(/\.sy$/, '').split('/').filter(Boolean);
+      return `${basePath}/${ids.map((id) => names.get(id)).join('/')}`;
+    });
+  }
+
+  /**
+   * Create the document backing a directory, or reuse an existing one. Root level
+   * directories become notebooks.
+   * @param path Human-readable directory path (e.g., '/notebook/folder')
+   * @returns Human-readable paths of every created notebook or document, outermost first
+   */
+  async createDirectory(path: string): Promise<string[]> {
+    const pathParts = path.split('/').filter(Boolean).map((part) => part.replace(/\.md$/, ''));
+    if (pathParts.length === 0) {
+      logAndThrow(this.logger, 'Invalid path format');
+    }
+
+    if (pathParts.length === 1) {
+      await this.createNotebook(decodeDocumentTitle(pathParts[0]));
+      return [`/${pathParts[0]}`];
+    }
+
+    const directoryPath = `/${pathParts.join('/')}`;
+    const created = await this.ensureParentDocs(directoryPath);
+
+    let docId: string;
+    if (await this.documentExists(directoryPath)) {
+      docId = await this.getBlockIdFromPath(directoryPath);
+    } else {
+      const parentPath = `/${pathParts.slice(0, -1).join('/')}`;
+      docId = await this.createDocument(parentPath, parseDocumentName(pathParts[pathParts.length - 1]).title, '');
+      created.push(directoryPath);
     }
 
-    await this.request('/api/file/removeFile', { path: processingPath });
+    // An empty document has no directory view in listFiles, the attribute keeps it listed as a folder
+    await this.request('/api/attr/setBlockAttrs', { id: docId, attrs: { [FOLDER_ATTRIBUTE]: '1' } });
+    await this.flushTransaction();
+    return created;
+  }
+
+  /**
+   * Which of the given documents were created as folders
+   */
+  private async getFolderDocIds(ids: string[]): Promise<Set<string>> {
+    if (ids.length === 0) {
+      return new Set();
+    }
+    const rows = await this.query<{ block_id: string }>(
+      `SELECT block_id FROM attributes WHERE name = '${FOLDER_ATTRIBUTE}' AND block_id IN (${ids.map((id) => `'${escapeSqlString(id)}'`).join(', ')}) LIMIT ${ids.length}`,
+    );
+    return new Set(rows.map((row) => row.block_id));
   }
 
-  async createDirectory(path: string): Promise<void> {
-    // Handle .md files by converting to .sy for processing
-    let processingPath = path;
-    if (path.endsWith('.md')) {
-      processingPath = path.slice(0, -3) + '.sy';
+  async createNotebook(name: string): Promise<string> {
+    const response = await this.request<{
+      code: number;
+      msg: string;
+      data: { notebook: { id: string; name: string } };
+    }>('/api/notebook/createNotebook', { name });
+
+    if (response?.code === 0 && response.data?.notebook) {
+      this.resolver.setNotebook(response.data.notebook.name, response.data.notebook.id);
+      return response.data.notebook.id;
     }
 
-    await this.request('/api/file/createDirectory', { path: processingPath });
+    logAndThrow(this.logger, response?.msg || `Failed to create notebook: ${name}`);
+  }
+
+  /**
+   * @param displayName Notebook name as shown in the explorer
+   * @param newName New notebook name as stored in SiYuan
+   */
+  async renameNotebook(displayName: string, newName: string): Promise<void> {
+    const notebook = await this.requireNotebookId(displayName);
+    await this.request('/api/notebook/renameNotebook', { notebook, name: newName });
+    this.resolver.setNotebooks(await this.lsNotebooks());
+  }
+
+  /**
+   * Open or close a notebook. Documents of a closed notebook can't be listed or read.
+   */
+  async setNotebookClosed(displayName: string, closed: boolean): Promise<void> {
+    const notebook = await this.requireNotebookId(displayName);
+    await this.request(closed ? '/api/notebook/closeNotebook' : '/api/notebook/openNotebook', { notebook });
+  }
+
+  /**
+   * Remove a notebook with all of its documents
+   */
+  async removeNotebook(displayName: string): Promise<void> {
+    const notebook = await this.requireNotebookId(displayName);
+    await this.request('/api/notebook/removeNotebook', { notebook });
+    this.resolver.setNotebooks(await this.lsNotebooks());
+  }
+
+  /**
+   * @returns The notebook's settings, e.g. where new documents and daily notes are saved
+   */
+  async getNotebookConf(displayName: string): Promise<Record<string, unknown>> {
+    const notebook = await this.requireNotebookId(displayName);
+    const response = await this.request<{ code: number; msg: string; data: { box: string; conf: Record<string, unknown> } }>(
+      '/api/notebook/getNotebookConf',
+      { notebook },
+    );
+    return response.data.conf;
+  }
+
+  async setNotebookConf(displayName: string, conf: Record<string, unknown>): Promise<void> {
+    const notebook = await this.requireNotebookId(displayName);
+    await this.request('/api/notebook/setNotebookConf', { notebook, conf });
+  }
+
+  private async requireNotebookId(displayName: string): Promise<string> {
+    const notebookId = await this.resolver.getNotebookId(displayName);
+    if (!notebookId) {
+      throw new SiYuanNotFoundError(`Notebook not found: ${displayName}`);
+    }
+    return notebookId;
   }
 
   async getFileStats(path: string): Promise<SiYuanFSFile> {
@@ -213,8 +682,8 @@ export class SiYuanApiClient {
     if (path.split('/').filter(Boolean).length === 1) {
       this.logger.debug(`处理一级路径（笔记本）:${path}`);
       const notebookName = path.replace('/', '');
-      if (this.notebookCache.has(notebookName)) {
-        const notebookId = this.notebookCache.get(notebookName)!;
+      const notebookId = await this.resolver.getNotebookId(notebookName);
+      if (notebookId) {
         return {
           name: notebookName,
           type: 'directory',
@@ -223,7 +692,7 @@ export class SiYuanApiClient {
           mtime: paserIdDate(notebookId as `${string}-${string}`).getTime(),
         };
       } else {
-        logAndThrow(this.logger, `getFileStats 此路径不存在于 notebookCache:${path}`);
+        throw new SiYuanNotFoundError(`getFileStats 此路径不存在于笔记本列表:${path}`);
       }
     }
     const blockId = await this.getBlockIdFromPath(path);
@@ -259,7 +728,322 @@ export class SiYuanApiClient {
         mtime: docData.updated ? new Date(docData.updated).getTime() : Date.now(),
       };
     }
-    logAndThrow(this.logger, `File not found: ${path}`);
+    throw new SiYuanNotFoundError(`File not found: ${path}`);
+  }
+
+  /**
+   * Current `updated` attribute of a document. Read from the block attributes rather than the SQL
+   * index, so edits that haven't been indexed yet are seen as well.
+   * @returns Timestamp in SiYuan's `yyyyMMddHHmmss` format, or an empty string for a document never edited
+   */
+  async getDocumentUpdated(path: string): Promise<string> {
+    const id = await this.getBlockIdFromPath(path);
+    const response = await this.request<{ code: number; msg: string; data: Record<string, string> | null }>(
+      '/api/attr/getBlockAttrs',
+      { id },
+    );
+    return response.data?.updated || '';
+  }
+
+  /**
+   * Latest `updated` timestamp across all blocks, used as the baseline for change polling
+   * @returns Timestamp in SiYuan's `yyyyMMddHHmmss` format, or an empty string for an empty workspace
+   */
+  async getLatestUpdated(): Promise<string> {
+    const response = await this.request<{
+      code: number;
+      msg: string;
+      data: Array<{ updated: string | null }>;
+    }>('/api/query/sql', {
+      stmt: `SELECT MAX(updated) AS updated FROM blocks`,
+    });
+
+    if (response?.code === 0 && Array.isArray(response.data)) {
+      return response.data[0]?.updated || '';
+    }
+
+    logAndThrow(this.logger, response?.msg || 'Invalid API response format');
+  }
+
+  /**
+   * List documents containing blocks updated at or after a timestamp. Timestamps only have a
+   * resolution of seconds, so the documents seen at the timestamp itself are listed again.
+   * @param since Timestamp in SiYuan's `yyyyMMddHHmmss` format
+   * @returns Changed documents with their human-readable path (without .md)
+   */
+  async listDocsUpdatedSince(
+    since: string,
+  ): Promise<Array<{ id: string; path: string; created: string; updated: string }>> {
+    const rows = await this.query<{ id: string; box: string; path: string; created: string; updated: string }>(
+      `SELECT d.id, d.box, d.path, d.created, MAX(b.updated) AS updated FROM blocks b JOIN blocks d ON d.id = b.root_id WHERE b.updated >= '${since}' GROUP BY d.id LIMIT 1000`,
+    );
+
+    // A remote rename or move makes cached paths of the document and its subtree stale
+    rows.forEach((doc) => this.resolver.invalidateDocument(doc.id));
+    const names = await this.resolver.getAllDisplayNames(rows);
+
+    const result: Array<{ id: string; path: string; created: string; updated: string }> = [];
+    for (const doc of rows) {
+      const notebookName = await this.resolver.getNotebookName(doc.box);
+      const docNames = names.get(doc.path);
+      if (notebookName && docNames) {
+        result.push({ id: doc.id, path: `/${[notebookName, ...docNames].join('/')}`, created: doc.created, updated: doc.updated });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Human-readable paths of all documents, built from a single query. Used to spot documents that
+   * were removed, renamed or moved, which leave no trace in the `updated` timestamps.
+   * @returns Document ID -> path (without .md)
+   */
+  async listDocumentPaths(): Promise<Map<string, string>> {
+    const rows = await this.query<{ id: string; box: string; path: string; content: string }>(
+      `SELECT id, box, path, content FROM blocks WHERE type = 'd' LIMIT 100000`,
+    );
+
+    const paths = new Map<string, string>();
+    for (const box of new Set(rows.map(row => row.box))) {
+      const notebookName = await this.resolver.getNotebookName(box);
+      if (!notebookName) {
+        continue;
+      }
+      // Sibling names are only unique within a notebook
+      const docs = rows.filter(row => row.box === box);
+      const names = formatSiblingNames(docs.map(doc => ({ id: doc.id, path: doc.path, title: doc.content })));
+      for (const doc of docs) {
+        const segments = doc.path.replace(/\.sy$/, '').split('/').filter(Boolean).map(id => names.get(id));
+        // A document whose ancestor is missing from the index is left out rather than misplaced
+        if (segments.every(name => name !== undefined)) {
+          paths.set(doc.id, `/${[notebookName, ...segments].join('/')}`);
+        }
+      }
+    }
+    return paths;
+  }
+
+  /**
+   * Forget cached path mappings of a document and everything below it, e.g. after it changed in SiYuan
+   */
+  invalidateDocument(id: string): void {
+    this.resolver.invalidateDocument(id);
+  }
+
+  /**
+   * Run a read-only SQL statement against the SiYuan database
+   * @param stmt SQL statement, values must already be escaped
+   */
+  async query<T>(stmt: string): Promise<T[]> {
+    const response = await this.request<{
+      code: number;
+      msg: string;
+      data: T[] | null;
+    }>('/api/query/sql', { stmt });
+    return response.data || [];
+  }
+
+  /**
+   * Run an SQL statement written by the user, e.g. in the SQL console. Unlike query it isn't
+   * retried, the statement may do more than read.
+   */
+  async runStatement<T>(stmt: string): Promise<T[]> {
+    const response = await this.request<{
+      code: number;
+      msg: string;
+      data: T[] | null;
+    }>('/api/query/sql', { stmt }, false);
+    return response.data || [];
+  }
+
+  /**
+   * Human-readable path of the document a block belongs to
+   * @returns Path with the .md extension (e.g., '/notebook/doc.md'), or undefined if there is no such block
+   */
+  async getBlockDocumentPath(id: string): Promise<string | undefined> {
+    const rows = await this.query<{ box: string; path: string }>(
+      `SELECT d.box, d.path FROM blocks b JOIN blocks d ON d.id = b.root_id WHERE b.id = '${escapeSqlString(id)}' LIMIT 1`,
+    );
+    if (rows.length === 0) {
+      return undefined;
+    }
+    const notebookName = await this.resolver.getNotebookName(rows[0].box);
+    if (!notebookName) {
+      return undefined;
+    }
+    const names = await this.resolver.getDisplayNames(rows[0].box, rows[0].path);
+    return `/${[notebookName, ...names].join('/')}.md`;
+  }
+
+  /**
+   * Look up a single block for previews
+   * @returns The block with its Markdown and the human-readable path of its document in the explorer
+   * (without .md), or undefined if there is no such block
+   */
+  async getBlockInfo(
+    id: string,
+  ): Promise<{ id: string; type: string; content: string; markdown: string; path: string } | undefined> {
+    const rows = await this.query<{ id: string; type: string; content: string; markdown: string; box: string; hpath: string }>(
+      `SELECT id, type, content, markdown, box, hpath FROM blocks WHERE id = '${escapeSqlString(id)}' LIMIT 1`,
+    );
+    if (rows.length === 0) {
+      return undefined;
+    }
+    const notebookName = await this.resolver.getNotebookName(rows[0].box);
+    const { box, hpath, ...block } = rows[0];
+    return { ...block, path: `/${notebookName ?? box}${hpath}` };
+  }
+
+  /**
+   * Find documents and headings whose text contains the characters of a search text in that order
+   * @returns Matches, most recently updated first, with the human-readable path (with .md) and hpath of their document
+   */
+  async searchTitles(
+    text: string,
+    limit: number,
+  ): Promise<Array<{ id: string; type: string; subtype: string; content: string; path: string; hpath: string }>> {
+    const pattern = [...text.replace(/\s+/g, '')].map(char => escapeSqlLike(char)).join('%');
+    const rows = await this.query<{ id: string; type: string; subtype: string; content: string; box: string; path: string; hpath: string }>(
+      `SELECT b.id, b.type, b.subtype, b.content, d.box, d.path, d.hpath FROM blocks b JOIN blocks d ON d.id = b.root_id WHERE b.type IN ('d', 'h') AND b.content LIKE '%${escapeSqlString(pattern)}%' ESCAPE '\\' ORDER BY b.updated DESC LIMIT ${limit}`,
+    );
+
+    // Headings share the path of their document, resolve each document once
+    const paths = new Map<string, Promise<string | undefined>>();
+    const resolvePath = async (box: string, path: string) => {
+      const notebookName = await this.resolver.getNotebookName(box);
+      return notebookName ? `/${[notebookName, ...await this.resolver.getDisplayNames(box, path)].join('/')}.md` : undefined;
+    };
+
+    const result: Array<{ id: string; type: string; subtype: string; content: string; path: string; hpath: string }> = [];
+    for (const row of rows) {
+      const key = `${row.box}${row.path}`;
+      if (!paths.has(key)) {
+        paths.set(key, resolvePath(row.box, row.path));
+      }
+      const path = await paths.get(key);
+      if (path) {
+        result.push({ id: row.id, type: row.type, subtype: row.subtype, content: row.content, path, hpath: row.hpath });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Find blocks whose text contains a search text, for block reference completion. Lists, quotes
+   * and super blocks are left out, their content is that of their children.
+   * @returns Matches, most recently updated first, with the human-readable path of their document (without .md)
+   */
+  async searchBlockContent(
+    text: string,
+    limit: number,
+  ): Promise<Array<{ id: string; type: string; content: string; path: string }>> {
+    const rows = await this.query<{ id: string; type: string; content: string; box: string; hpath: string }>(
+      `SELECT id, type, content, box, hpath FROM blocks WHERE type NOT IN ('l', 'b', 's', 'tb') AND content != '' AND content LIKE '%${escapeSqlString(escapeSqlLike(text))}%' ESCAPE '\\' ORDER BY updated DESC LIMIT ${limit}`,
+    );
+    const result: Array<{ id: string; type: string; content: string; path: string }> = [];
+    for (const { box, hpath, ...block } of rows) {
+      result.push({ ...block, path: `/${await this.resolver.getNotebookName(box) ?? box}${hpath}` });
+    }
+    return result;
+  }
+
+  /**
+   * Find tags containing a search text
+   * @returns Tags without the enclosing '#', most recently used first, with the human-readable path
+   * (without .md) of the document that used them last
+   */
+  async searchTags(text: string, limit: number): Promise<Array<{ tag: string; path: string }>> {
+    // blocks.tag lists the tags of a block as '#a# #b/c#'
+    const rows = await this.query<{ tag: string; box: string; hpath: string }>(
+      `SELECT tag, box, hpath FROM blocks WHERE tag != '' AND tag LIKE '%${escapeSqlString(escapeSqlLike(text))}%' ESCAPE '\\' ORDER BY updated DESC LIMIT 1000`,
+    );
+    const tags = new Map<string, string>();
+    for (const row of rows) {
+      for (const tag of row.tag.match(/#[^#]+#/g) ?? []) {
+        const name = tag.slice(1, -1);
+        if (!tags.has(name) && name.toLowerCase().includes(text.toLowerCase())) {
+          tags.set(name, `/${await this.resolver.getNotebookName(row.box) ?? row.box}${row.hpath}`);
+        }
+      }
+    }
+    return [...tags].slice(0, limit).map(([tag, path]) => ({ tag, path }));
+  }
+
+  async lsNotebooks(): Promise<Array<{ id: string; name: string; closed: boolean }>> {
+    const response = await this.request<{
+      code: number;
+      msg: string;
+      data: { notebooks: Array<{ id: string; name: string; closed: boolean }> };
+    }>('/api/notebook/lsNotebooks');
+
+    if (response?.data && Array.isArray(response.data.notebooks)) {
+      return response.data.notebooks;
+    }
+
+    logAndThrow(this.logger, response?.msg || 'Invalid API response format');
+  }
+
+  // Workspace file operations, paths are relative to the workspace root (e.g., '/data/assets/image.png')
+  async readWorkspaceDir(path: string): Promise<WorkspaceEntry[]> {
+    const response = await this.request<{ code: number; msg: string; data: WorkspaceEntry[] | null }>(
+      '/api/file/readDir',
+      { path },
+    );
+    return response.data || [];
+  }
+
+  async getWorkspaceFile(path: string): Promise<Uint8Array> {
+    return this.requestBinary('/api/file/getFile', { path });
+  }
+
+  /**
+   * Write a file, or create a directory when no content is given
+   */
+  async putWorkspaceFile(path: string, content?: Uint8Array): Promise<void> {
+    const form = new FormData();
+    form.append('path', path);
+    form.append('isDir', String(content === undefined));
+    form.append('modTime', String(Date.now()));
+    if (content !== undefined) {
+      form.append('file', new Blob([content]), path.split('/').pop());
+    }
+
+    await this.requestForm('/api/file/putFile', form);
+  }
+
+  /**
+   * Remove a file, or a directory with everything in it
+   */
+  async removeWorkspaceFile(path: string): Promise<void> {
+    await this.request('/api/file/removeFile', { path });
+  }
+
+  async renameWorkspaceFile(path: string, newPath: string): Promise<void> {
+    await this.request('/api/file/renameFile', { path, newPath });
+  }
+
+  /**
+   * Upload files as new assets. SiYuan makes each name unique by appending an ID.
+   * @param assetsDirPath Target folder below the assets folder (e.g., '/assets/images/')
+   * @returns Original file name -> asset path (e.g., 'assets/image-20210808180117-6v0mkxr.png')
+   */
+  async uploadAssets(assetsDirPath: string, files: Array<{ name: string; content: Uint8Array }>): Promise<Record<string, string>> {
+    const form = new FormData();
+    form.append('assetsDirPath', assetsDirPath);
+    files.forEach((file) => form.append('file[]', new Blob([file.content]), file.name));
+
+    const response = await this.requestForm<{
+      code: number;
+      msg: string;
+      data: { errFiles: string[] | null; succMap: Record<string, string> } | null;
+    }>('/api/asset/upload', form);
+    if (!response.data) {
+      logAndThrow(this.logger, 'Failed to upload assets: no result returned');
+    }
+    if (response.data.errFiles?.length) {
+      logAndThrow(this.logger, `Failed to upload assets: ${response.data.errFiles.join(', ')}`);
+    }
+    return response.data.succMap;
   }
 
   // Note operations (for future implementation)
@@ -292,13 +1076,71 @@ export class SiYuanApiClient {
     return this.request('/api/search/searchBlocks', { query });
   }
 
-  protected async request<T>(endpoint: string, data?: any): Promise<T> {
+  /**
+   * @param idempotent Whether a failed request may be sent again, by default for the endpoints that only read
+   */
+  protected async request<T>(endpoint: string, data?: any, idempotent = IDEMPOTENT_ENDPOINTS.has(endpoint)): Promise<T> {
+    const response = await this.send(endpoint, data ? JSON.stringify(data) : undefined, {
+      'Content-Type': 'application/json',
+    }, idempotent);
+    return this.checkEnvelope(endpoint, this.parseJson<T>(endpoint, response.text()));
+  }
+
+  /**
+   * Request an endpoint that answers with raw file content rather than a JSON envelope
+   */
+  protected async requestBinary(endpoint: string, data: any): Promise<Uint8Array> {
+    const response = await this.send(endpoint, JSON.stringify(data), { 'Content-Type': 'application/json' }, IDEMPOTENT_ENDPOINTS.has(endpoint));
+
+    // Failures still come as a JSON envelope, with status 202
+    if (response.status === 202) {
+      const result = this.parseJson<{ code: number; msg: string }>(endpoint, response.text());
+      throw siyuanErrorFromResponse(endpoint, response.status, result?.code, result?.msg);
+    }
+    return response.body;
+  }
+
+  /**
+   * Request an endpoint that takes multipart form data, e.g. for file uploads
+   */
+  protected async requestForm<T>(endpoint: string, form: FormData): Promise<T> {
+    // fetch sets the multipart Content-Type including its boundary
+    const response = await this.send(endpoint, form, {}, IDEMPOTENT_ENDPOINTS.has(endpoint));
+    return this.checkEnvelope(endpoint, this.parseJson<T>(endpoint, response.text()));
+  }
+
+  /**
+   * Send a request, retrying idempotent ones when the server couldn't be reached or failed
+   */
+  private async send(endpoint: string, body: string | FormData | undefined, headers: Record<string, string>, idempotent: boolean): Promise<BufferedResponse> {
+    const attempts = idempotent ? RETRY_ATTEMPTS : 1;
+
+    // Retries belong to the same request, a trial request may use them before it counts as failed
+    this.breaker.check();
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.sendOnce(endpoint, body, headers);
+        this.breaker.recordSuccess();
+        return response;
+      } catch (error) {
+        if (!(error instanceof TransportError)) {
+          this.breaker.recordSuccess(); // the server answered, just not with what we wanted
+          throw error;
+        }
+        if (attempt >= attempts) {
+          this.breaker.recordFailure();
+          throw error;
+        }
+        this.logger.warn(`${error.message}, retrying ${endpoint} (${attempt}/${attempts - 1})`);
+        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY * 2 ** (attempt - 1)));
+      }
+    }
+  }
+
+  private async sendOnce(endpoint: string, body: string | FormData | undefined, headers: Record<string, string>): Promise<BufferedResponse> {
     // All endpoints use real HTTP requests
     const url = new URL(endpoint, this.config.baseUrl);
-
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
+    const timeout = this.config.timeout || 10000;
 
     if (this.config.apiToken) {
       headers['Authorization'] = `Token ${this.config.apiToken}`;
@@ -307,11 +1149,11 @@ export class SiYuanApiClient {
     const fetchOptions: RequestInit = {
       method: 'POST',
       headers,
-      // signal: AbortSignal.timeout(this.config.timeout || 10000),
+      signal: AbortSignal.timeout(timeout),
     };
 
-    if (data) {
-      fetchOptions.body = JSON.stringify(data);
+    if (body) {
+      fetchOptions.body = body;
     }
     /**
      * 下面这个错误会由于代理触发，所以要注意代理放行局域网请求
@@ -319,13 +1161,52 @@ export class SiYuanApiClient {
      *   TypeError: fetch failed
      *       at node:internal/deps/undici/undici:13510:13
      */
-    const response = await fetch(url.toString(), fetchOptions);
+    let response: Response;
+    let content: Uint8Array;
+    try {
+      response = await fetch(url.toString(), fetchOptions);
+      // The timeout also covers reading the body
+      content = new Uint8Array(await response.arrayBuffer());
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new TransportError(`Request timed out after ${timeout}ms: ${endpoint}`);
+      }
+      throw new TransportError(`Request failed: ${endpoint}: ${error instanceof Error ? error.message : String(error)}`);
+    }
 
+    const buffered: BufferedResponse = {
+      status: response.status,
+      body: content,
+      text: () => new TextDecoder().decode(content),
+    };
+    if (response.status >= 500) {
+      throw new TransportError(`HTTP ${response.status}: ${response.statusText}`);
+    }
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      // Auth failures still come with an envelope, unknown endpoints with a plain text page
+      let envelope: { code?: number; msg?: string } | undefined;
+      try {
+        envelope = JSON.parse(buffered.text());
+      } catch {
+        envelope = undefined;
+      }
+      throw siyuanErrorFromResponse(endpoint, response.status, envelope?.code, envelope?.msg || response.statusText);
+    }
+    return buffered;
+  }
+
+  /**
+   * Throw the typed error for a response whose envelope reports a failure
+   */
+  private checkEnvelope<T>(endpoint: string, result: T): T {
+    const envelope = result as { code?: unknown; msg?: string } | null;
+    if (typeof envelope?.code === 'number' && envelope.code !== 0) {
+      throw siyuanErrorFromResponse(endpoint, 200, envelope.code, envelope.msg);
     }
+    return result;
+  }
 
-    const responseText = await response.text();
+  private parseJson<T>(endpoint: string, responseText: string): T {
     try {
       const result = JSON.parse(responseText);
       return result as T;
@@ -344,6 +1225,7 @@ export class SiYuanApiClient {
 
   updateConfig(config: Partial<SiYuanFSConfig>): void {
     this.config = { ...this.config, ...config };
+    this.breaker = new CircuitBreaker(this.config.baseUrl);
   }
 
   getConfig(): SiYuanFSConfig {
@@ -373,26 +1255,9 @@ export class SiYuanApiClient {
       throw new Error('Invalid path format');
     }
 
-    // Get notebook ID
-    let notebookId = this.notebookCache.get(pathParts[0]);
-    if (!notebookId) {
-      const rootResponse = await this.request<{
-        data: {
-          notebooks: { id: string; name: string }[];
-        };
-      }>('/api/notebook/lsNotebooks');
-
-      if (rootResponse?.data?.notebooks) {
-        const notebook = rootResponse.data.notebooks.find((nb) => nb.name === pathParts[0]);
-        notebookId = notebook?.id;
-        if (notebook) {
-          this.notebookCache.set(notebook.name, notebook.id);
-        }
-      }
-    }
-
+    const notebookId = await this.resolver.getNotebookId(pathParts[0]);
     if (!notebookId) {
-      logAndThrow(this.logger, `Notebook not found: ${pathParts[0]}`);
+      throw new SiYuanNotFoundError(`Notebook not found: ${pathParts[0]}`);
     }
 
     // For root notebook path, return '/'
@@ -400,76 +1265,77 @@ export class SiYuanApiClient {
       return { notebookId, realPath: '/' };
     }
 
-    // Check if it's a directory path (without .md extension)
-    const isFolderPath = !pathParts[pathParts.length - 1].endsWith('.md');
-    const cleanPathParts = pathParts.slice(1);
-
-    if (isFolderPath) {
-      // Handle directory path - convert to document path and get target document ID
-      const parentPathParts = cleanPathParts.slice(0, -1);
-      const targetDocName = cleanPathParts[cleanPathParts.length - 1];
-
-      // Build parent real path
-      let parentRealPath = '/';
-      if (parentPathParts.length > 0) {
-        let currentPath = '';
-        for (const part of parentPathParts) {
-          currentPath = currentPath ? `${currentPath}/${part}` : part;
-          // Remove .md extension for hPath lookup
-          const hPath = `/${currentPath.replace(/\.md$/, '')}`;
-          const pathIds = await this.getIDsByHPath(hPath, notebookId);
-          if (pathIds.length > 0) {
-            if (parentRealPath === '/') {
-              parentRealPath = `/${pathIds[0]}`;
-            } else {
-              parentRealPath = `${parentRealPath}/${pathIds[0]}`;
-            }
-          } else {
-            logAndThrow(this.logger, `Cannot find path: ${hPath}`);
-          }
-        }
-      }
+    // File and directory views of a document resolve to the same storage path
+    const names = pathParts.slice(1).map((part, i) => (i === pathParts.length - 2 ? part.replace(/\.md$/, '') : part));
+    const documents = await this.resolver.resolveDocument(notebookId, names);
+    if (documents.length === 0) {
+      logAndThrow(this.logger, `Cannot find path: ${path}`);
+    }
+    if (documents.length > 1) {
+      logAndThrow(this.logger, `Ambiguous path, several documents share this title: ${path}`);
+    }
 
-      // Get target document ID
-      const targetHPath = `/${cleanPathParts.join('/').replace(/\.md$/, '')}`;
-      const targetIds = await this.getIDsByHPath(targetHPath, notebookId);
-      if (targetIds.length === 0) {
-        logAndThrow(this.logger, `Cannot find target document: ${targetHPath}`);
-      }
+    return { notebookId, realPath: documents[0].path };
+  }
 
-      // Build final real path with .sy extension
-      const finalPath =
-        parentRealPath === '/' ? `/${targetIds[0]}.sy` : `${parentRealPath}/${targetIds[0]}.sy`;
+  /**
+   * Drop cached path resolutions, e.g. when the user asks for a refresh
+   */
+  clearCache(): void {
+    this.resolver.clear();
+  }
 
-      return { notebookId, realPath: finalPath };
-    } else {
-      // Handle normal path - convert incrementally
-      let currentRealPath = '/';
-      let currentPath = '';
-
-      for (let i = 0; i < cleanPathParts.length; i++) {
-        const part = cleanPathParts[i];
-        currentPath = currentPath ? `${currentPath}/${part}` : part;
-        // Remove .md extension for hPath lookup
-        const hPath = `/${currentPath.replace(/\.md$/, '')}`;
-        const pathIds = await this.getIDsByHPath(hPath, notebookId);
-
-        if (pathIds.length > 0) {
-          const isLastPart = i === cleanPathParts.length - 1;
-          const idWithExtension = isLastPart ? `${pathIds[0]}.sy` : pathIds[0];
-
-          if (currentRealPath === '/') {
-            currentRealPath = `/${idWithExtension}`;
-          } else {
-            currentRealPath = `${currentRealPath}/${idWithExtension}`;
-          }
-        } else {
-          logAndThrow(this.logger, `Cannot find path: ${hPath}`);
-        }
+  /**
+   * Create every missing ancestor of a document as an empty document
+   * @param path Human-readable path of the document (e.g., '/notebook/parent/doc.md')
+   * @returns Human-readable paths (without .md) of the created ancestors, outermost first
+   */
+  private async ensureParentDocs(path: string): Promise<string[]> {
+    const pathParts = path.split('/').filter(Boolean);
+    const created: string[] = [];
+    for (let i = 2; i < pathParts.length; i++) {
+      const parentPath = `/${pathParts.slice(0, i).join('/')}`;
+      if (await this.documentExists(parentPath)) {
+        continue;
       }
+      await this.createDocument(`/${pathParts.slice(0, i - 1).join('/')}`, parseDocumentName(pathParts[i - 1]).title, '');
+      created.push(parentPath);
+    }
+
+    // Make the new parents visible to SQL lookups before resolving below them
+    if (created.length > 0) {
+      await this.flushTransaction();
+    }
+    return created;
+  }
+
+  /**
+   * Create a document below a parent document or at the root of a notebook
+   * @param parentPath Human-readable path of the parent document or notebook (e.g., '/notebook/parent')
+   * @returns ID of the new document
+   */
+  private async createDocument(parentPath: string, title: string, markdown: string): Promise<string> {
+    const parentParts = parentPath.split('/').filter(Boolean);
+    const notebookId = await this.resolver.getNotebookId(parentParts[0]);
+    if (!notebookId) {
+      throw new SiYuanNotFoundError(`Notebook not found: ${parentParts[0]}`);
+    }
 
-      return { notebookId, realPath: currentRealPath };
+    const parentTitles = parentParts.slice(1).map((part) => parseDocumentName(part));
+    if (!title.includes('/') && parentTitles.every((parent) => parent.id === undefined && !parent.title.includes('/'))) {
+      return this.createDocWithMd(notebookId, `/${[...parentTitles.map((parent) => parent.title), title].join('/')}`, markdown);
     }
+
+    // An hpath can't name a title containing '/' or pick one of several same-titled parents,
+    // so create the document under a placeholder title at the root, then move and rename it
+    const placeholder = `siyuanfs-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+    const docId = await this.createDocWithMd(notebookId, `/${placeholder}`, markdown);
+    if (parentTitles.length > 0) {
+      await this.flushTransaction();
+      await this.moveDocsByID([docId], await this.getBlockIdFromPath(parentPath));
+    }
+    await this.renameDocByID(docId, title);
+    return docId;
   }
 
   async getIDsByHPath(path: string, notebookId?: string): Promise<string[]> {
@@ -478,29 +1344,7 @@ export class SiYuanApiClient {
     if (!targetNotebookId && path !== '/') {
       const pathParts = path.split('/').filter(Boolean);
       if (pathParts.length > 0) {
-        // First try to get from cache
-        if (this.notebooksLoaded) {
-          targetNotebookId = this.notebookCache.get(pathParts[0]);
-        }
-
-        // If not in cache, fetch from API
-        if (!targetNotebookId) {
-          const rootResponse = await this.request<{
-            data: {
-              notebooks: { id: string; name: string }[];
-            };
-          }>('/api/notebook/lsNotebooks');
-
-          if (rootResponse?.data?.notebooks) {
-            const notebook = rootResponse.data.notebooks.find((nb) => nb.name === pathParts[0]);
-            targetNotebookId = notebook?.id;
-
-            // Update cache
-            if (notebook) {
-              this.notebookCache.set(notebook.name, notebook.id);
-            }
-          }
-        }
+        targetNotebookId = await this.resolver.getNotebookId(pathParts[0]);
       }
     }
 
@@ -0,0 +1,81 @@
+// ABOUTME: Typed errors for failures SiYuan reports, classified from its HTTP status and the JSON code/msg envelope
+
+export type FileSystemErrorType = 'FileNotFound' | 'FileExists' | 'NoPermissions' | 'Unavailable';
+
+/**
+ * The server answered, but refused or failed the request. The message is the server's own.
+ */
+export class SiYuanError extends Error {
+    /** The vscode.FileSystemError this failure is reported as */
+    readonly fileSystemError: FileSystemErrorType = 'Unavailable';
+
+    /**
+     * @param code Code from the response envelope, or the HTTP status when there was no envelope
+     * @param endpoint Endpoint that failed, if the error came from a response
+     */
+    constructor(message: string, readonly code?: number, readonly endpoint?: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/** The API token is missing or wrong */
+export class SiYuanAuthError extends SiYuanError {
+    readonly fileSystemError = 'NoPermissions';
+}
+
+/** The block, document, notebook or file doesn't exist */
+export class SiYuanNotFoundError extends SiYuanError {
+    readonly fileSystemError = 'FileNotFound';
+}
+
+/** The server is in read-only mode, or the token's role may not change anything */
+export class SiYuanReadOnlyError extends SiYuanError {
+    readonly fileSystemError = 'NoPermissions';
+}
+
+/** The target already exists */
+export class SiYuanConflictError extends SiYuanError {
+    readonly fileSystemError = 'FileExists';
+}
+
+/** The server is booting, indexing or syncing and can't serve the request right now */
+export class SiYuanBusyError extends SiYuanError {
+    readonly fileSystemError = 'Unavailable';
+}
+
+/** The endpoint doesn't exist, typically on an older SiYuan version */
+export class SiYuanUnsupportedError extends SiYuanError {
+    readonly fileSystemError = 'Unavailable';
+}
+
+/**
+ * Classify a failed response
+ * @param status HTTP status of the response
+ * @param code Code from the JSON envelope, if there was one
+ * @param msg Message from the JSON envelope, if there was one
+ */
+export function siyuanErrorFromResponse(endpoint: string, status: number, code?: number, msg?: string): SiYuanError {
+    const message = msg || `Request failed with ${code !== undefined ? `code ${code}` : `HTTP ${status}`}: ${endpoint}`;
+    const errorCode = code ?? status;
+
+    if (status === 401 || code === 401 || /auth(entication)? failed|invalid token/i.test(message)) {
+        return new SiYuanAuthError(message, errorCode, endpoint);
+    }
+    if (status === 404 && code === undefined) {
+        return new SiYuanUnsupportedError(`${endpoint} is not supported by this SiYuan version`, errorCode, endpoint);
+    }
+    if (status === 403 || code === 403 || /read-?only/i.test(message)) {
+        return new SiYuanReadOnlyError(message, errorCode, endpoint);
+    }
+    if (code === 404 || /not (found|exist)|doesn't exist|does not exist/i.test(message)) {
+        return new SiYuanNotFoundError(message, errorCode, endpoint);
+    }
+    if (code === 409 || /already exists?/i.test(message)) {
+        return new SiYuanConflictError(message, errorCode, endpoint);
+    }
+    if (/booting|indexing|rebuilding|syncing|busy/i.test(message)) {
+        return new SiYuanBusyError(message, errorCode, endpoint);
+    }
+    return new SiYuanError(message, errorCode, endpoint);
+}
@@ -1,16 +1,23 @@
 // ABOUTME: SiYuanFS file system provider implementation
 
 import * as vscode from 'vscode';
-import { SIYUANFS_SCHEME, SiYuanFSConfig, SiYuanFSFile as SiYuanFSFileData } from './constants';
+import { SIYUANFS_ASSETS_FOLDER, SIYUANFS_NOTEBOOK_CONF_FILE, SIYUANFS_SCHEME, SiYuanFSConfig, SiYuanFSFile as SiYuanFSFileData } from './constants';
 import { SiYuanFSHttpClient } from './SiYuanFSHttpClient';
+import { TransportError } from './siyuanApi';
+import { SiYuanConflictError } from './siyuanErrors';
 import { Logger } from './logger';
 import { logAndThrowVscodeError } from './utils';
+import { RemoteChangeWatcher } from './remoteChangeWatcher';
+import { WorkspaceFileSystem } from './workspaceFileSystem';
+import { CachedEntry, OfflineCache } from './offlineCache';
+import { decodeDocumentTitle, formatNotebookName } from './documentNames';
 
 export class SiYuanFSFile implements vscode.FileStat {
     type: vscode.FileType;
     ctime: number;
     mtime: number;
     size: number;
+    permissions?: vscode.FilePermission;
 
     name: string;
     path: string;
@@ -25,35 +32,124 @@ export class SiYuanFSFile implements vscode.FileStat {
     }
 }
 
-export class SiYuanFS implements vscode.FileSystemProvider {
-    private client: SiYuanFSHttpClient;
-    private config: SiYuanFSConfig;
-    private logger: Logger;
+/**
+ * Everything kept per SiYuan server. The empty URI authority is the connection set up through the
+ * init and config commands, any other authority is the ID of a saved connection.
+ */
+class Mount implements vscode.Disposable {
+    client: SiYuanFSHttpClient;
+    watcher: RemoteChangeWatcher;
+    assets: WorkspaceFileSystem; // the virtual assets folder, backed by data/assets
+    versions = new Map<string, string>(); // document path -> `updated` attribute the editor's copy is based on
+    cache: OfflineCache;
+    offline = false; // whether the last request failed to reach the server
+    stale = new Map<string, number>(); // URI -> time of the cached copy it was served from while offline
+    closedNotebooks = new Set<string>(); // display names of closed notebooks, as of the last root listing
+    promptedNotebooks = new Set<string>(); // closed notebooks the user was already offered to open
+    notebookConfs = new Map<string, { json: string; mtime: number }>(); // notebook display name -> settings last read
+
+    constructor(readonly authority: string, public config: SiYuanFSConfig, private storagePath: string, fire: (...events: vscode.FileChangeEvent[]) => void) {
+        this.client = new SiYuanFSHttpClient(config);
+        this.watcher = new RemoteChangeWatcher(authority, () => this.client, () => this.config, fire);
+        this.assets = new WorkspaceFileSystem(() => this.client, fire, uri => `/data${uri.path}`);
+        this.cache = new OfflineCache(storagePath, config.baseUrl);
+    }
+
+    updateConfig(config: Partial<SiYuanFSConfig>): void {
+        const baseUrl = this.config.baseUrl;
+        this.config = { ...this.config, ...config };
+        this.client = new SiYuanFSHttpClient(this.config);
+        this.versions.clear();
+        this.watcher.reset();
+        if (this.config.baseUrl !== baseUrl) {
+            this.cache.dispose();
+            this.cache = new OfflineCache(this.storagePath, this.config.baseUrl);
+        }
+    }
+
+    dispose(): void {
+        this.watcher.dispose();
+        this.cache.dispose();
+    }
+}
 
-    constructor(config: SiYuanFSConfig) {
-        this.config = config;
+export class SiYuanFS implements vscode.FileSystemProvider, vscode.Disposable {
+    private logger: Logger;
+    private mounts = new Map<string, Mount>(); // URI authority -> mount
+
+    /**
+     * @param config Configuration of the connection without an authority in its URIs
+     * @param resolveConnection Looks up the configuration of a saved connection by its ID
+     * @param storagePath Directory for the offline cache
+     */
+    constructor(config: SiYuanFSConfig, private resolveConnection: (id: string) => SiYuanFSConfig | null, private storagePath: string) {
         this.logger = Logger.getInstance();
-        this.client = new SiYuanFSHttpClient(config);
+        this.mounts.set('', new Mount('', config, storagePath, (...events) => this._fireSoon(...events)));
         this.logger.info('SiYuanFS file system provider initialized');
     }
 
     // --- manage file metadata
 
     async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        const mount = this.getMount(uri);
+        if (this.isAssetUri(uri)) {
+            const stat = await mount.assets.stat(uri);
+            return this.isWriteProtected(mount, uri) ? { ...stat, permissions: vscode.FilePermission.Readonly } : stat;
+        }
+
+        const path = this.getPathFromUri(uri);
+        const confNotebook = this.getConfNotebook(path);
+        if (confNotebook !== undefined) {
+            const conf = await this.readNotebookConf(mount, uri, confNotebook);
+            return {
+                type: vscode.FileType.File,
+                ctime: conf.mtime,
+                mtime: conf.mtime,
+                size: new TextEncoder().encode(conf.json).byteLength,
+                permissions: this.isWriteProtected(mount, uri) ? vscode.FilePermission.Readonly : undefined
+            };
+        }
+
         try {
-            const path = this.getPathFromUri(uri);
-            const fileData = await this.client.getFileStats(path);
-            return new SiYuanFSFile(fileData, path);
+            const fileData = await mount.client.getFileStats(path);
+            this.markOnline(mount);
+
+            // No version is recorded here: stats come from the SQL index, which lags behind the block
+            // attributes saves are checked against. Only readFile and writes record versions.
+            const stat = new SiYuanFSFile(fileData, path);
+            mount.cache.putStat(path, stat);
+            if (this.isWriteProtected(mount, uri)) {
+                stat.permissions = vscode.FilePermission.Readonly;
+            }
+            return stat;
         } catch (error) {
-            logAndThrowVscodeError(this.logger, uri, 'FileNotFound');
+            const cached = this.fromCache(mount, uri, error, () => mount.cache.getStat(path));
+            if (cached) {
+                return { ...cached, permissions: vscode.FilePermission.Readonly };
+            }
+            if (error instanceof vscode.FileSystemError) {
+                throw error;
+            }
+            logAndThrowVscodeError(this.logger, uri, 'FileNotFound', error as Error);
         }
     }
 
     async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
-        try {
-            const path = this.getPathFromUri(uri);
+        const mount = this.getMount(uri);
+        if (this.isAssetUri(uri)) {
+            return mount.assets.readDirectory(uri);
+        }
+
+        const path = this.getPathFromUri(uri);
+        const notebook = this.getNotebookName(path);
+        if (notebook !== undefined && mount.closedNotebooks.has(notebook)) {
+            this.offerToOpenNotebook(mount, uri, notebook);
+            return [];
+        }
 
-            const files = await this.client.listFiles(path);
+        try {
+            const files = await mount.client.listFiles(path);
+            this.markOnline(mount);
 
             const result = files.map(file => {
                 const displayName = file.type === 'directory' ? file.name : (file.name.endsWith('.md') ? file.name : file.name + '.md');
@@ -63,92 +159,745 @@ export class SiYuanFS implements vscode.FileSystemProvider {
                 ] as [string, vscode.FileType];
             });
 
+            // The assets folder sits next to the notebooks, the settings file in each notebook
+            if (path === '/') {
+                result.push([SIYUANFS_ASSETS_FOLDER, vscode.FileType.Directory]);
+                this.updateClosedNotebooks(mount, files.filter(file => file.closed).map(file => file.name));
+            } else if (notebook !== undefined) {
+                result.push([SIYUANFS_NOTEBOOK_CONF_FILE, vscode.FileType.File]);
+            }
+            mount.cache.putListing(path, result);
             return result;
         } catch (error: any) {
-            this.logger.error(`FileSystem Error: readDirectory ${this.getPathFromUri(uri)}`, error);
-            throw vscode.FileSystemError.FileNotFound(uri);
+            const cached = this.fromCache(mount, uri, error, () => mount.cache.getListing(path));
+            if (cached) {
+                return cached;
+            }
+            if (error instanceof vscode.FileSystemError) {
+                throw error;
+            }
+            logAndThrowVscodeError(this.logger, uri, 'FileNotFound', error);
         }
     }
 
     // --- manage file contents
 
     async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        const mount = this.getMount(uri);
+        if (this.isAssetUri(uri)) {
+            return mount.assets.readFile(uri);
+        }
+
+        const path = this.getPathFromUri(uri);
+        const confNotebook = this.getConfNotebook(path);
+        if (confNotebook !== undefined) {
+            return new TextEncoder().encode((await this.readNotebookConf(mount, uri, confNotebook)).json);
+        }
+
         try {
-            const path = this.getPathFromUri(uri);
-            const content = await this.client.readFile(path);
+            // Fetch the version first, so an edit in between shows up as a conflict rather than being lost
+            const version = await mount.client.getVersion(path);
+            const content = await mount.client.readFile(path);
+            this.markOnline(mount);
+            mount.versions.set(path, version);
+            mount.cache.putDocument(path, content);
             return new TextEncoder().encode(content);
         } catch (error) {
-            logAndThrowVscodeError(this.logger, uri, 'FileNotFound');
+            const cached = this.fromCache(mount, uri, error, () => mount.cache.getDocument(path));
+            if (cached !== undefined) {
+                return new TextEncoder().encode(cached);
+            }
+            if (error instanceof vscode.FileSystemError) {
+                throw error;
+            }
+            logAndThrowVscodeError(this.logger, uri, 'FileNotFound', error as Error);
         }
     }
 
     async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean, overwrite: boolean }): Promise<void> {
+        const mount = this.getMount(uri);
+        this.checkWritable(mount, uri);
+        if (this.isAssetUri(uri)) {
+            return mount.assets.writeFile(uri, content, options);
+        }
+
         const path = this.getPathFromUri(uri);
         const contentStr = new TextDecoder().decode(content);
+        const confNotebook = this.getConfNotebook(path);
+        if (confNotebook !== undefined) {
+            if (!options.overwrite) {
+                logAndThrowVscodeError(this.logger, uri, 'FileExists');
+            }
+            return this.writeNotebookConf(mount, uri, confNotebook, contentStr);
+        }
 
+        let exists: boolean;
         try {
-            await this.client.writeFile(path, contentStr, options);
-            this._fireSoon({ type: vscode.FileChangeType.Changed, uri });
+            exists = await mount.client.exists(path);
         } catch (error: any) {
-            if (error.message.includes('exists')) {
-                logAndThrowVscodeError(this.logger, uri, 'FileExists');
-            } else if (error.message.includes('not found')) {
-                logAndThrowVscodeError(this.logger, uri, 'FileNotFound');
-            } else {
-                logAndThrowVscodeError(this.logger, uri, 'Unavailable', error);
+            // Writes are never queued, the edits stay unsaved in the editor until the server is back
+            if (this.isOfflineError(error)) {
+                logAndThrowVscodeError(this.logger, uri, 'Unavailable', `SiYuan is unreachable, ${path} can't be saved until the connection is back`);
+            }
+            logAndThrowVscodeError(this.logger, uri, 'Unavailable', error);
+        }
+
+        if (!exists && !options.create) {
+            logAndThrowVscodeError(this.logger, uri, 'FileNotFound');
+        }
+        if (exists && !options.overwrite) {
+            logAndThrowVscodeError(this.logger, uri, 'FileExists');
+        }
+        if (exists) {
+            await this.checkForConflict(mount, uri, path);
+        }
+
+        try {
+            mount.watcher.markLocalChange(path.replace(/\.md$/, ''));
+            if (exists) {
+                await mount.client.writeFile(path, contentStr, { overwrite: true });
+                await this.recordVersion(mount, path);
+                this._fireSoon({ type: vscode.FileChangeType.Changed, uri });
+                return;
             }
+
+            const createdPaths = await mount.client.createFile(path, contentStr);
+            await this.recordVersion(mount, path);
+            this._fireSoon(...this.createdEvents(uri, createdPaths));
+        } catch (error: any) {
+            if (error instanceof vscode.FileSystemError) {
+                throw error;
+            }
+            logAndThrowVscodeError(this.logger, uri, 'Unavailable', error);
         }
     }
 
     // --- manage files/folders
 
     async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): Promise<void> {
-        // Note: HTTP API might not support rename directly, this is a placeholder
-        // Implementation would depend on the actual API capabilities
-        try {
-            const oldPath = this.getPathFromUri(oldUri);
-            const newPath = this.getPathFromUri(newUri);
+        const mount = this.getMount(oldUri);
+        if (oldUri.authority !== newUri.authority || this.isAssetUri(oldUri) !== this.isAssetUri(newUri) || this.isAssetsFolder(oldUri)) {
+            logAndThrowVscodeError(this.logger, oldUri, 'NoPermissions', `Cannot move ${oldUri.path} to ${newUri.path}`);
+        }
+        this.checkWritable(mount, oldUri);
+        this.checkWritable(mount, newUri);
+        if (this.isAssetUri(oldUri)) {
+            return mount.assets.rename(oldUri, newUri, options);
+        }
 
-            // Read content from old file
-            const content = await this.client.readFile(oldPath);
+        const oldPath = this.getPathFromUri(oldUri);
+        const newPath = this.getPathFromUri(newUri);
+        if (this.getConfNotebook(oldPath) !== undefined || this.getConfNotebook(newPath) !== undefined) {
+            logAndThrowVscodeError(this.logger, oldUri, 'NoPermissions', `Notebook settings can't be moved: ${oldPath}`);
+        }
+        if (!this.isDocumentPath(oldPath) || !this.isDocumentPath(newPath)) {
+            return this.renameNotebook(mount, oldUri, newUri);
+        }
+        const oldDocPath = oldPath.replace(/\.md$/, '');
+        const newDocPath = newPath.replace(/\.md$/, '');
 
-            // Write to new file
-            await this.client.writeFile(newPath, content, { create: true, overwrite: options.overwrite });
+        try {
+            if (oldDocPath !== newDocPath && !options.overwrite && await mount.client.exists(newPath)) {
+                logAndThrowVscodeError(this.logger, newUri, 'FileExists');
+            }
 
-            // Delete old file
-            await this.client.deleteFile(oldPath);
+            const hasChildren = await mount.client.hasChildren(oldPath);
+            mount.watcher.markLocalRemoval(oldDocPath);
+            mount.watcher.markLocalChange(newDocPath);
+            const createdPaths = await mount.client.renameFile(oldPath, newPath, options);
+            this.forgetVersions(mount, oldDocPath);
+            mount.cache.remove(oldDocPath);
+            this.forgetVersions(mount, newDocPath);
+
+            const events: vscode.FileChangeEvent[] = [
+                ...this.documentEvents(vscode.FileChangeType.Deleted, oldUri, oldDocPath, hasChildren),
+                ...this.documentEvents(vscode.FileChangeType.Created, newUri, newDocPath, hasChildren)
+            ];
+
+            // Parent documents gain or lose their directory entry together with their last child
+            const oldParentPath = oldDocPath.substring(0, oldDocPath.lastIndexOf('/'));
+            const newParentPath = newDocPath.substring(0, newDocPath.lastIndexOf('/'));
+            if (oldParentPath !== newParentPath) {
+                if (this.isDocumentPath(oldParentPath) && !await mount.client.hasChildren(oldParentPath)) {
+                    events.push({ type: vscode.FileChangeType.Deleted, uri: oldUri.with({ path: oldParentPath }) });
+                }
+                for (const createdPath of createdPaths) {
+                    events.push(...this.documentEvents(vscode.FileChangeType.Created, newUri, createdPath, true));
+                }
+                if (this.isDocumentPath(newParentPath)) {
+                    events.push({ type: vscode.FileChangeType.Created, uri: newUri.with({ path: newParentPath }) });
+                }
+            }
 
-            this._fireSoon(
-                { type: vscode.FileChangeType.Deleted, uri: oldUri },
-                { type: vscode.FileChangeType.Created, uri: newUri }
-            );
+            this._fireSoon(...events);
         } catch (error: any) {
+            if (error instanceof vscode.FileSystemError) {
+                throw error;
+            }
             logAndThrowVscodeError(this.logger, oldUri, 'Unavailable', error);
         }
     }
 
-    async delete(uri: vscode.Uri): Promise<void> {
+    async delete(uri: vscode.Uri, options: { recursive: boolean }): Promise<void> {
+        const mount = this.getMount(uri);
+        this.checkWritable(mount, uri);
+        if (this.isAssetsFolder(uri)) {
+            logAndThrowVscodeError(this.logger, uri, 'NoPermissions', 'The assets folder cannot be deleted');
+        }
+        if (this.isAssetUri(uri)) {
+            return mount.assets.delete(uri, options);
+        }
+
+        const path = this.getPathFromUri(uri);
+        if (this.getConfNotebook(path) !== undefined) {
+            logAndThrowVscodeError(this.logger, uri, 'NoPermissions', `Notebook settings can't be deleted: ${path}`);
+        }
+        if (!this.isDocumentPath(path)) {
+            logAndThrowVscodeError(this.logger, uri, 'NoPermissions', `Notebooks cannot be deleted from the explorer, use 'Remove Notebook': ${path}`);
+        }
+
         try {
-            const path = this.getPathFromUri(uri);
-            await this.client.deleteFile(path);
-            this._fireSoon({ uri, type: vscode.FileChangeType.Deleted });
+            if (!await mount.client.exists(path)) {
+                logAndThrowVscodeError(this.logger, uri, 'FileNotFound');
+            }
+
+            const descendants = await mount.client.listDescendants(path);
+            if (descendants.length > 0 && !options.recursive) {
+                logAndThrowVscodeError(this.logger, uri, 'NoPermissions', `Directory is not empty: ${path}`);
+            }
+
+            const docPath = path.replace(/\.md$/, '');
+            mount.watcher.markLocalRemoval(docPath);
+            await mount.client.deleteFile(path);
+
+            this.forgetVersions(mount, docPath);
+            mount.cache.remove(docPath);
+            const events = this.documentEvents(vscode.FileChangeType.Deleted, uri, docPath, descendants.length > 0);
+            for (const descendant of descendants) {
+                events.push(...this.documentEvents(vscode.FileChangeType.Deleted, uri, descendant, true));
+            }
+
+            // The parent document loses its directory entry together with its last child
+            const parentPath = docPath.substring(0, docPath.lastIndexOf('/'));
+            if (this.isDocumentPath(parentPath) && !await mount.client.hasChildren(parentPath)) {
+                events.push({ type: vscode.FileChangeType.Deleted, uri: uri.with({ path: parentPath }) });
+            }
+
+            this._fireSoon(...events);
         } catch (error: any) {
-            throw vscode.FileSystemError.FileNotFound(uri);
+            if (error instanceof vscode.FileSystemError) {
+                throw error;
+            }
+            logAndThrowVscodeError(this.logger, uri, 'Unavailable', error);
         }
     }
 
     async createDirectory(uri: vscode.Uri): Promise<void> {
+        const mount = this.getMount(uri);
+        this.checkWritable(mount, uri);
+        if (this.isAssetUri(uri)) {
+            return mount.assets.createDirectory(uri);
+        }
+
+        const path = this.getPathFromUri(uri);
+        if (this.getConfNotebook(path) !== undefined) {
+            logAndThrowVscodeError(this.logger, uri, 'FileExists');
+        }
+
+        try {
+            // A notebook, or a document that already has subdocuments, is a directory already
+            if (await mount.client.exists(path) && (!this.isDocumentPath(path) || await mount.client.hasChildren(path))) {
+                logAndThrowVscodeError(this.logger, uri, 'FileExists');
+            }
+
+            const docPath = path.replace(/\.md$/, '');
+            mount.watcher.markLocalChange(docPath);
+            const createdPaths = await mount.client.createDirectory(path);
+            if (!this.isDocumentPath(docPath)) {
+                this._fireSoon({ type: vscode.FileChangeType.Created, uri });
+                return;
+            }
+
+            const events: vscode.FileChangeEvent[] = [];
+            const parentPath = docPath.substring(0, docPath.lastIndexOf('/'));
+            if (this.isDocumentPath(parentPath)) {
+                events.push({ type: vscode.FileChangeType.Created, uri: uri.with({ path: parentPath }) });
+            }
+            for (const createdPath of createdPaths) {
+                events.push(...this.documentEvents(vscode.FileChangeType.Created, uri, createdPath, true));
+            }
+            if (!createdPaths.includes(docPath)) {
+                events.push({ type: vscode.FileChangeType.Created, uri: uri.with({ path: docPath }) });
+            }
+            this._fireSoon(...events);
+        } catch (error: any) {
+            if (error instanceof vscode.FileSystemError) {
+                throw error;
+            }
+            logAndThrowVscodeError(this.logger, uri, 'Unavailable', error);
+        }
+    }
+
+    // --- assets
+
+    /**
+     * Upload files into the assets folder the way SiYuan does, i.e. under a unique name
+     * @param folderUri A folder inside the assets folder
+     * @returns Original file name -> asset path as used in document links (e.g., 'assets/image-20210808180117-6v0mkxr.png')
+     */
+    async uploadAssets(folderUri: vscode.Uri, files: Array<{ name: string; content: Uint8Array }>): Promise<Record<string, string>> {
+        if (!this.isAssetUri(folderUri)) {
+            logAndThrowVscodeError(this.logger, folderUri, 'NoPermissions', `Not inside the assets folder: ${folderUri.path}`);
+        }
+        const mount = this.getMount(folderUri);
+        this.checkWritable(mount, folderUri);
+
+        const uploaded = await mount.client.uploadAssets(`${folderUri.path.replace(/\/+$/, '')}/`, files);
+        this._fireSoon(...Object.values(uploaded).map(assetPath => ({
+            type: vscode.FileChangeType.Created,
+            uri: folderUri.with({ path: `/${assetPath}` })
+        })));
+        return uploaded;
+    }
+
+    /**
+     * Whether a URI points at a document, as opposed to a notebook, an asset or notebook settings
+     */
+    isDocumentUri(uri: vscode.Uri): boolean {
+        return uri.scheme === SIYUANFS_SCHEME && !this.isAssetUri(uri) && uri.path.endsWith('.md') && this.isDocumentPath(uri.path);
+    }
+
+    private isAssetUri(uri: vscode.Uri): boolean {
+        return this.isAssetsFolder(uri) || uri.path.startsWith(`/${SIYUANFS_ASSETS_FOLDER}/`);
+    }
+
+    private isAssetsFolder(uri: vscode.Uri): boolean {
+        return uri.path.replace(/\/+$/, '') === `/${SIYUANFS_ASSETS_FOLDER}`;
+    }
+
+    // --- notebooks
+
+    private _onDidChangeNotebooks = new vscode.EventEmitter<vscode.Uri[]>();
+
+    /**
+     * Fires with the notebooks that were opened or closed
+     */
+    readonly onDidChangeNotebooks: vscode.Event<vscode.Uri[]> = this._onDidChangeNotebooks.event;
+
+    isNotebookClosed(uri: vscode.Uri): boolean {
+        const notebook = this.getNotebookName(uri.path);
+        return notebook !== undefined && !!this.mounts.get(uri.authority)?.closedNotebooks.has(notebook);
+    }
+
+    /**
+     * @returns Closed notebooks of every connection in use
+     */
+    getClosedNotebooks(): vscode.Uri[] {
+        return [...this.mounts.values()].flatMap(mount => [...mount.closedNotebooks].map(notebook => this.notebookUri(mount, notebook)));
+    }
+
+    async setNotebookClosed(uri: vscode.Uri, closed: boolean): Promise<void> {
+        const mount = this.getMount(uri);
+        this.checkWritable(mount, uri);
+        const notebook = this.getNotebookName(uri.path);
+        if (notebook === undefined) {
+            logAndThrowVscodeError(this.logger, uri, 'FileNotFound', `Not a notebook: ${uri.path}`);
+        }
+
+        await mount.client.setNotebookClosed(notebook, closed);
+        // Closing on purpose shouldn't be followed by an offer to open it again
+        mount.promptedNotebooks.add(notebook);
+        const closedNotebooks = new Set(mount.closedNotebooks);
+        if (closed) {
+            closedNotebooks.add(notebook);
+        } else {
+            closedNotebooks.delete(notebook);
+        }
+        this.updateClosedNotebooks(mount, [...closedNotebooks]);
+        this._fireSoon({ type: vscode.FileChangeType.Changed, uri: this.notebookUri(mount, notebook) });
+    }
+
+    /**
+     * Remove a notebook with all of its documents
+     */
+    async removeNotebook(uri: vscode.Uri): Promise<void> {
+        const mount = this.getMount(uri);
+        this.checkWritable(mount, uri);
+        const notebook = this.getNotebookName(uri.path);
+        if (notebook === undefined) {
+            logAndThrowVscodeError(this.logger, uri, 'FileNotFound', `Not a notebook: ${uri.path}`);
+        }
+
+        await mount.client.removeNotebook(notebook);
+        this.forgetNotebook(mount, notebook);
+        this._fireSoon({ type: vscode.FileChangeType.Deleted, uri: this.notebookUri(mount, notebook) });
+    }
+
+    private async renameNotebook(mount: Mount, oldUri: vscode.Uri, newUri: vscode.Uri): Promise<void> {
+        const oldNotebook = this.getNotebookName(oldUri.path);
+        const newNotebook = this.getNotebookName(newUri.path);
+        if (oldNotebook === undefined || newNotebook === undefined) {
+            logAndThrowVscodeError(this.logger, oldUri, 'NoPermissions', `Notebooks and documents can't be moved into each other: ${oldUri.path} -> ${newUri.path}`);
+        }
+
+        try {
+            if (await mount.client.exists(`/${newNotebook}`)) {
+                logAndThrowVscodeError(this.logger, newUri, 'FileExists');
+            }
+            mount.watcher.markLocalRemoval(`/${oldNotebook}`);
+            await mount.client.renameNotebook(oldNotebook, decodeDocumentTitle(newNotebook));
+        } catch (error: any) {
+            if (error instanceof vscode.FileSystemError) {
+                throw error;
+            }
+            logAndThrowVscodeError(this.logger, oldUri, 'Unavailable', error);
+        }
+
+        const wasClosed = mount.closedNotebooks.has(oldNotebook);
+        this.forgetNotebook(mount, oldNotebook);
+        if (wasClosed) {
+            this.updateClosedNotebooks(mount, [...mount.closedNotebooks, newNotebook]);
+        }
+        this._fireSoon(
+            { type: vscode.FileChangeType.Deleted, uri: this.notebookUri(mount, oldNotebook) },
+            { type: vscode.FileChangeType.Created, uri: this.notebookUri(mount, newNotebook) }
+        );
+    }
+
+    /**
+     * Drop everything known about a notebook that was renamed or removed
+     */
+    private forgetNotebook(mount: Mount, notebook: string): void {
+        this.forgetVersions(mount, `/${notebook}`);
+        mount.cache.remove(`/${notebook}`);
+        mount.notebookConfs.delete(notebook);
+        mount.promptedNotebooks.delete(notebook);
+        this.updateClosedNotebooks(mount, [...mount.closedNotebooks].filter(name => name !== notebook));
+    }
+
+    private updateClosedNotebooks(mount: Mount, closed: string[]): void {
+        const changed = [...mount.closedNotebooks].filter(name => !closed.includes(name))
+            .concat(closed.filter(name => !mount.closedNotebooks.has(name)));
+        if (changed.length > 0) {
+            mount.closedNotebooks = new Set(closed);
+            this._onDidChangeNotebooks.fire(changed.map(notebook => this.notebookUri(mount, notebook)));
+        }
+    }
+
+    /**
+     * Documents of a closed notebook can't be read, offer once to open it when it is expanded
+     */
+    private async offerToOpenNotebook(mount: Mount, uri: vscode.Uri, notebook: string): Promise<void> {
+        if (mount.promptedNotebooks.has(notebook)) {
+            return;
+        }
+        mount.promptedNotebooks.add(notebook);
+
+        const choice = await vscode.window.showInformationMessage(`Notebook '${decodeDocumentTitle(notebook)}' is closed in SiYuan.`, 'Open Notebook');
+        if (choice) {
+            try {
+                await this.setNotebookClosed(uri, false);
+            } catch (error: any) {
+                this.logger.error(`Failed to open notebook ${notebook}`, error);
+                vscode.window.showErrorMessage(`Failed to open notebook: ${error.message}`);
+            }
+        }
+    }
+
+    /**
+     * Read a notebook's settings, pretty-printed. The modification time only moves when they change,
+     * so VS Code doesn't take every read for an outside edit.
+     */
+    private async readNotebookConf(mount: Mount, uri: vscode.Uri, notebook: string): Promise<{ json: string; mtime: number }> {
+        let json: string;
+        try {
+            json = `${JSON.stringify(await mount.client.getNotebookConf(notebook), null, 2)}\n`;
+        } catch (error: any) {
+            if (error instanceof vscode.FileSystemError) {
+                throw error;
+            }
+            logAndThrowVscodeError(this.logger, uri, 'FileNotFound', error);
+        }
+
+        const known = mount.notebookConfs.get(notebook);
+        const conf = known?.json === json ? known : { json, mtime: Date.now() };
+        mount.notebookConfs.set(notebook, conf);
+        return conf;
+    }
+
+    private async writeNotebookConf(mount: Mount, uri: vscode.Uri, notebook: string, content: string): Promise<void> {
+        let conf: unknown;
+        try {
+            conf = JSON.parse(content);
+        } catch (error: any) {
+            logAndThrowVscodeError(this.logger, uri, 'Unavailable', `Invalid notebook settings: ${error.message}`);
+        }
+        if (typeof conf !== 'object' || conf === null || Array.isArray(conf)) {
+            logAndThrowVscodeError(this.logger, uri, 'Unavailable', 'Invalid notebook settings: expected a JSON object');
+        }
+
         try {
-            const path = this.getPathFromUri(uri);
-            await this.client.createDirectory(path);
-            this._fireSoon({ type: vscode.FileChangeType.Created, uri });
+            await mount.client.setNotebookConf(notebook, conf as Record<string, unknown>);
         } catch (error: any) {
-            logAndThrowVscodeError(this.logger, uri, 'Unavailable', error.message);
+            logAndThrowVscodeError(this.logger, uri, 'Unavailable', error);
+        }
+        await this.readNotebookConf(mount, uri, notebook);
+        this._fireSoon({ type: vscode.FileChangeType.Changed, uri });
+    }
+
+    /**
+     * @returns Display name of the notebook whose settings file the path points at, or undefined
+     */
+    private getConfNotebook(path: string): string | undefined {
+        const parts = path.split('/').filter(Boolean);
+        return parts.length === 2 && parts[1] === SIYUANFS_NOTEBOOK_CONF_FILE ? parts[0] : undefined;
+    }
+
+    /**
+     * @returns Display name of the notebook the path points at, or undefined for anything else
+     */
+    private getNotebookName(path: string): string | undefined {
+        const parts = path.split('/').filter(Boolean);
+        return parts.length === 1 && parts[0] !== SIYUANFS_ASSETS_FOLDER ? parts[0] : undefined;
+    }
+
+    private notebookUri(mount: Mount, notebook: string): vscode.Uri {
+        return vscode.Uri.from({ scheme: SIYUANFS_SCHEME, authority: mount.authority, path: `/${notebook}` });
+    }
+
+    // --- write protection
+
+    /**
+     * @param authority Connection ID, or empty for the connection set up through the init command
+     */
+    isReadOnlyConnection(authority: string = ''): boolean {
+        return !!this.getMount(vscode.Uri.from({ scheme: SIYUANFS_SCHEME, authority, path: '/' })).config.readOnly;
+    }
+
+    /**
+     * Report a document as changed after it was edited outside the file system API, e.g. block by block,
+     * so open editors reload it
+     */
+    reportChange(uri: vscode.Uri): void {
+        this._fireSoon({ type: vscode.FileChangeType.Changed, uri });
+    }
+
+    /**
+     * Throw NoPermissions for changes made outside the file system API, e.g. to single blocks
+     */
+    assertWritable(uri: vscode.Uri): void {
+        this.checkWritable(this.getMount(uri), uri);
+    }
+
+    /**
+     * Whether the connection is read-only or the URI is inside a protected notebook
+     */
+    private isWriteProtected(mount: Mount, uri: vscode.Uri): boolean {
+        return !!mount.config.readOnly || this.getProtectedNotebook(mount, uri) !== undefined;
+    }
+
+    private checkWritable(mount: Mount, uri: vscode.Uri): void {
+        if (mount.config.readOnly) {
+            logAndThrowVscodeError(this.logger, uri, 'NoPermissions', `The connection to ${mount.config.baseUrl} is read-only: ${uri.path}`);
+        }
+        const notebook = this.getProtectedNotebook(mount, uri);
+        if (notebook !== undefined) {
+            logAndThrowVscodeError(this.logger, uri, 'NoPermissions', `Notebook '${notebook}' is write-protected: ${uri.path}`);
+        }
+    }
+
+    /**
+     * @returns Name of the protected notebook the URI is in, or undefined
+     */
+    private getProtectedNotebook(mount: Mount, uri: vscode.Uri): string | undefined {
+        if (this.isAssetUri(uri)) {
+            return undefined;
+        }
+        const notebookName = uri.path.split('/').filter(Boolean)[0];
+        return notebookName === undefined ? undefined : mount.config.protectedNotebooks?.find(name => formatNotebookName(name) === notebookName);
+    }
+
+    // --- offline cache
+
+    private _onDidChangeStale = new vscode.EventEmitter<vscode.Uri[]>();
+
+    /**
+     * Fires when files start or stop being served from the offline cache
+     */
+    readonly onDidChangeStale: vscode.Event<vscode.Uri[]> = this._onDidChangeStale.event;
+
+    /**
+     * @returns When the offline copy a file is currently served from was taken, or undefined if it is served live
+     */
+    getCachedAt(uri: vscode.Uri): number | undefined {
+        return this.mounts.get(uri.authority)?.stale.get(uri.toString());
+    }
+
+    /**
+     * Serve a cached copy when the server can't be reached
+     */
+    private fromCache<T>(mount: Mount, uri: vscode.Uri, error: unknown, lookup: () => CachedEntry<T> | undefined): T | undefined {
+        if (!this.isOfflineError(error)) {
+            return undefined;
+        }
+        const entry = lookup();
+        if (!entry) {
+            return undefined;
+        }
+
+        if (!mount.offline) {
+            mount.offline = true;
+            vscode.window.showWarningMessage(`SiYuan at ${mount.config.baseUrl} is unreachable. Cached copies are shown read-only until it is back.`);
+        }
+        if (!mount.stale.has(uri.toString())) {
+            mount.stale.set(uri.toString(), entry.cachedAt);
+            this._onDidChangeStale.fire([uri]);
+        }
+        return entry.value;
+    }
+
+    /**
+     * Once the server answers again, reload everything that was served from the cache
+     */
+    private markOnline(mount: Mount): void {
+        if (!mount.offline) {
+            return;
+        }
+        mount.offline = false;
+
+        const staleUris = [...mount.stale.keys()].map(key => vscode.Uri.parse(key));
+        mount.stale.clear();
+        this._onDidChangeStale.fire(staleUris);
+        this._fireSoon(...staleUris.map(uri => ({ type: vscode.FileChangeType.Changed, uri })));
+        this.logger.info(`SiYuan at ${mount.config.baseUrl} is reachable again`);
+    }
+
+    private isOfflineError(error: unknown): boolean {
+        return error instanceof TransportError || (error instanceof vscode.FileSystemError && error.code === 'Unavailable');
+    }
+
+    // --- save conflicts
+
+    private _onDidDetectConflict = new vscode.EventEmitter<vscode.Uri>();
+
+    /**
+     * Fires when a save was rejected because the document was changed in SiYuan after it was read
+     */
+    readonly onDidDetectConflict: vscode.Event<vscode.Uri> = this._onDidDetectConflict.event;
+
+    /**
+     * Read the server's copy of a document without touching the version unsaved edits are based on
+     */
+    async readServerVersion(uri: vscode.Uri): Promise<string> {
+        return this.getMount(uri).client.readFile(this.getPathFromUri(uri));
+    }
+
+    /**
+     * Drop the recorded version of a document, so its next save overwrites whatever is on the server
+     */
+    forgetVersion(uri: vscode.Uri): void {
+        this.getMount(uri).versions.delete(this.getPathFromUri(uri));
+    }
+
+    private async checkForConflict(mount: Mount, uri: vscode.Uri, path: string): Promise<void> {
+        const known = mount.versions.get(path);
+        if (known === undefined) {
+            return;
+        }
+
+        let current: string;
+        try {
+            current = await mount.client.getVersion(path);
+        } catch (error: any) {
+            logAndThrowVscodeError(this.logger, uri, 'Unavailable', error);
+        }
+
+        if (current !== known) {
+            this._onDidDetectConflict.fire(uri);
+            // FileExists tells the editor the save was refused, the conflict prompt offers the ways out
+            logAndThrowVscodeError(this.logger, uri, 'FileExists', new SiYuanConflictError(`Save conflict, the document was changed in SiYuan since it was opened (${known} -> ${current})`));
+        }
+    }
+
+    private async recordVersion(mount: Mount, path: string): Promise<void> {
+        try {
+            mount.versions.set(path, await mount.client.getVersion(path));
+        } catch (error) {
+            // The write went through, the next save just can't be checked
+            mount.versions.delete(path);
+            this.logger.warn(`Cannot read the version of ${path}`, error);
+        }
+    }
+
+    /**
+     * Forget recorded versions of a document and everything below it
+     * @param documentPath Human-readable path of the document without the .md extension
+     */
+    private forgetVersions(mount: Mount, documentPath: string): void {
+        for (const path of mount.versions.keys()) {
+            if (path === `${documentPath}.md` || path.startsWith(`${documentPath}/`)) {
+                mount.versions.delete(path);
+            }
         }
     }
 
     // --- lookup helpers
 
+    /**
+     * Build Created events for freshly created documents. Every created ancestor shows up
+     * both as a `.md` file and as a directory, and an existing parent document gains its
+     * directory entry once it has a child.
+     */
+    private createdEvents(uri: vscode.Uri, createdPaths: string[]): vscode.FileChangeEvent[] {
+        const events: vscode.FileChangeEvent[] = [];
+        const targetPath = createdPaths[createdPaths.length - 1];
+
+        const parentPath = createdPaths[0].substring(0, createdPaths[0].lastIndexOf('/'));
+        if (this.isDocumentPath(parentPath)) {
+            events.push({ type: vscode.FileChangeType.Created, uri: uri.with({ path: parentPath }) });
+        }
+
+        for (const createdPath of createdPaths) {
+            if (createdPath !== targetPath) {
+                events.push(...this.documentEvents(vscode.FileChangeType.Created, uri, createdPath, true));
+            }
+        }
+        events.push({ type: vscode.FileChangeType.Created, uri });
+        return events;
+    }
+
+    /**
+     * Events for a document's `.md` file and, when it has subdocuments, its directory twin
+     * @param documentPath Human-readable path of the document without the .md extension
+     */
+    private documentEvents(type: vscode.FileChangeType, uri: vscode.Uri, documentPath: string, withDirectory: boolean): vscode.FileChangeEvent[] {
+        const events: vscode.FileChangeEvent[] = [{ type, uri: uri.with({ path: `${documentPath}.md` }) }];
+        if (withDirectory) {
+            events.push({ type, uri: uri.with({ path: documentPath }) });
+        }
+        return events;
+    }
+
+    /**
+     * Whether a path points below a notebook, i.e. at a document rather than the root or a notebook
+     */
+    private isDocumentPath(path: string): boolean {
+        return path.split('/').filter(Boolean).length > 1;
+    }
+
+    private getMount(uri: vscode.Uri): Mount {
+        let mount = this.mounts.get(uri.authority);
+        if (!mount) {
+            const config = this.resolveConnection(uri.authority);
+            if (!config) {
+                logAndThrowVscodeError(this.logger, uri, 'Unavailable', `Unknown SiYuan connection: ${uri.authority}`);
+            }
+            mount = new Mount(uri.authority, config, this.storagePath, (...events) => this._fireSoon(...events));
+            this.mounts.set(uri.authority, mount);
+        }
+        return mount;
+    }
+
     private getPathFromUri(uri: vscode.Uri): string {
         if (uri.scheme !== SIYUANFS_SCHEME) {
             logAndThrowVscodeError(this.logger, uri, 'Unavailable', `Invalid URI scheme: ${uri.scheme}`);
@@ -165,10 +914,8 @@ export class SiYuanFS implements vscode.FileSystemProvider {
 
     readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._emitter.event;
 
-    watch(_resource: vscode.Uri): vscode.Disposable {
-        // Note: For HTTP-based file system, real-time watching might not be feasible
-        // This is a basic implementation that doesn't actually watch for changes
-        return new vscode.Disposable(() => { });
+    watch(uri: vscode.Uri, options: { readonly recursive: boolean; readonly excludes: readonly string[] }): vscode.Disposable {
+        return this.getMount(uri).watcher.watch(uri, options);
     }
 
     private _fireSoon(...events: vscode.FileChangeEvent[]): void {
@@ -184,14 +931,39 @@ export class SiYuanFS implements vscode.FileSystemProvider {
         }, 5);
     }
 
+    dispose(): void {
+        this.mounts.forEach(mount => mount.dispose());
+        this.mounts.clear();
+        this._emitter.dispose();
+        this._onDidDetectConflict.dispose();
+        this._onDidChangeStale.dispose();
+        this._onDidChangeNotebooks.dispose();
+    }
+
     // --- configuration
 
-    updateConfig(config: Partial<SiYuanFSConfig>): void {
-        this.config = { ...this.config, ...config };
-        this.client = new SiYuanFSHttpClient(this.config);
+    /**
+     * Forget cached notebook and document paths, so the next lookups hit the server again
+     */
+    refresh(): void {
+        this.mounts.forEach(mount => mount.client.clearCache());
+    }
+
+    /**
+     * @param authority Connection ID, or empty for the connection set up through the init command
+     */
+    getClient(authority: string = ''): SiYuanFSHttpClient {
+        return this.getMount(vscode.Uri.from({ scheme: SIYUANFS_SCHEME, authority, path: '/' })).client;
+    }
+
+    /**
+     * @param authority Connection ID whose settings changed, or empty for the connection set up through the init command
+     */
+    updateConfig(config: Partial<SiYuanFSConfig>, authority: string = ''): void {
+        this.mounts.get(authority)?.updateConfig(config);
     }
 
     getConfig(): SiYuanFSConfig {
-        return { ...this.config };
+        return { ...this.mounts.get('')!.config };
     }
 }
\ No newline at end of file
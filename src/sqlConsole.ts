@@ -0,0 +1,404 @@
+// ABOUTME: SQL console, runs statements against the active connection and shows the rows in a sortable table
+
+import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+import { SiYuanFS } from './siyuanFileSystemProvider';
+import { getBlockDocumentUri, revealBlock } from './blockNavigation';
+import { Logger } from './logger';
+
+const SAVED_QUERIES_KEY = 'siyuanfs.savedQueries';
+const BLOCK_ID = /^\d{14}-[a-z0-9]{7}$/;
+const LINK_COLUMNS = ['id', 'block_id', 'root_id']; // columns whose block the row links to, in order of preference
+const MAX_NAME_LENGTH = 60;
+
+interface SavedQuery {
+    name: string;
+    stmt: string;
+}
+
+interface QueryResult {
+    stmt: string;
+    columns: string[];
+    rows: Record<string, unknown>[];
+}
+
+type WebviewMessage = { type: 'open'; id: string } | { type: 'export'; format: 'csv' | 'json' } | { type: 'save' };
+
+export class SqlConsole implements vscode.CodeLensProvider, vscode.Disposable {
+    private logger: Logger;
+    private disposables: vscode.Disposable[] = [];
+    private panel?: vscode.WebviewPanel;
+    private result?: QueryResult; // shown in the panel
+
+    /**
+     * @param state Storage of the saved queries, shared by all workspaces
+     * @param getConnectionKey Identifies the active connection, saved queries are kept per connection
+     */
+    constructor(private fs: SiYuanFS, private state: vscode.Memento, private getConnectionKey: () => string) {
+        this.logger = Logger.getInstance();
+        this.disposables.push(
+            vscode.languages.registerCodeLensProvider({ language: 'sql' }, this),
+            // Menus pass the editor's URI, only a string is a statement
+            vscode.commands.registerCommand('siyuanfs.runSqlQuery', (stmt?: unknown) => this.run(typeof stmt === 'string' ? stmt : undefined)),
+            vscode.commands.registerCommand('siyuanfs.saveSqlQuery', (stmt?: unknown) => this.save(typeof stmt === 'string' ? stmt : undefined)),
+            vscode.commands.registerCommand('siyuanfs.deleteSqlQuery', () => this.deleteSaved())
+        );
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        return splitStatements(document.getText()).flatMap(({ stmt, offset }) => {
+            const range = new vscode.Range(document.positionAt(offset), document.positionAt(offset));
+            return [
+                new vscode.CodeLens(range, { command: 'siyuanfs.runSqlQuery', title: 'Run in SiYuan', arguments: [stmt] }),
+                new vscode.CodeLens(range, { command: 'siyuanfs.saveSqlQuery', title: 'Save Query', arguments: [stmt] })
+            ];
+        });
+    }
+
+    dispose(): void {
+        this.panel?.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    /**
+     * Run a statement, by default the selection or the whole file of an SQL editor, else one
+     * picked from the saved queries or typed in
+     */
+    private async run(stmt?: string): Promise<void> {
+        stmt = stmt ?? this.getEditorStatement() ?? await this.pickStatement();
+        if (!stmt?.trim()) {
+            return;
+        }
+
+        if (this.fs.isReadOnlyConnection() && !isSelectStatement(stmt)) {
+            vscode.window.showErrorMessage('The connection is read-only, only a single SELECT statement can run');
+            return;
+        }
+
+        try {
+            const rows = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Window, title: 'Running SQL query' },
+                () => this.fs.getClient('').runStatement<Record<string, unknown>>(stmt!)
+            );
+            const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+            this.show({ stmt, columns, rows });
+        } catch (error: any) {
+            this.logger.error('SQL query failed', error);
+            vscode.window.showErrorMessage(`SQL query failed: ${error.message}`);
+        }
+    }
+
+    private getEditorStatement(): string | undefined {
+        const editor = vscode.window.activeTextEditor;
+        if (editor?.document.languageId !== 'sql') {
+            return undefined;
+        }
+        const text = editor.selection.isEmpty ? editor.document.getText() : editor.document.getText(editor.selection);
+        return text.trim() || undefined;
+    }
+
+    private async pickStatement(): Promise<string | undefined> {
+        const saved = this.getSaved();
+        if (saved.length > 0) {
+            const picked = await vscode.window.showQuickPick(
+                [
+                    { label: '$(edit) Enter a query...', stmt: undefined },
+                    ...saved.map(query => ({ label: query.name, detail: query.stmt, stmt: query.stmt }))
+                ],
+                { placeHolder: 'Run a saved query or enter a new one', matchOnDetail: true }
+            );
+            if (!picked) {
+                return undefined;
+            }
+            if (picked.stmt) {
+                return picked.stmt;
+            }
+        }
+        return vscode.window.showInputBox({
+            prompt: 'SQL query to run in SiYuan',
+            placeHolder: "SELECT * FROM blocks WHERE type = 'd' ORDER BY updated DESC LIMIT 20"
+        });
+    }
+
+    private async save(stmt?: string): Promise<void> {
+        stmt = stmt ?? this.getEditorStatement() ?? this.result?.stmt;
+        if (!stmt) {
+            vscode.window.showInformationMessage('There is no query to save, select one in an SQL editor or run it first');
+            return;
+        }
+        const firstLine = stmt.trim().split('\n')[0];
+        const name = await vscode.window.showInputBox({
+            prompt: 'Name of the saved query',
+            value: firstLine.length > MAX_NAME_LENGTH ? `${firstLine.substring(0, MAX_NAME_LENGTH)}…` : firstLine
+        });
+        if (!name) {
+            return;
+        }
+        // A query saved under an existing name replaces it
+        await this.setSaved([...this.getSaved().filter(query => query.name !== name), { name, stmt: stmt.trim() }]);
+        vscode.window.setStatusBarMessage(`Saved query '${name}'`, 3000);
+    }
+
+    private async deleteSaved(): Promise<void> {
+        const saved = this.getSaved();
+        if (saved.length === 0) {
+            vscode.window.showInformationMessage('There are no saved queries for this connection');
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(
+            saved.map(query => ({ label: query.name, detail: query.stmt })),
+            { placeHolder: 'Select the saved queries to delete', canPickMany: true }
+        );
+        if (picked?.length) {
+            const names = new Set(picked.map(item => item.label));
+            await this.setSaved(saved.filter(query => !names.has(query.name)));
+        }
+    }
+
+    private getSaved(): SavedQuery[] {
+        return this.state.get<Record<string, SavedQuery[]>>(SAVED_QUERIES_KEY, {})[this.getConnectionKey()] ?? [];
+    }
+
+    private async setSaved(queries: SavedQuery[]): Promise<void> {
+        const all = { ...this.state.get<Record<string, SavedQuery[]>>(SAVED_QUERIES_KEY, {}) };
+        all[this.getConnectionKey()] = queries.sort((a, b) => a.name.localeCompare(b.name));
+        await this.state.update(SAVED_QUERIES_KEY, all);
+    }
+
+    private show(result: QueryResult): void {
+        this.result = result;
+        if (!this.panel) {
+            this.panel = vscode.window.createWebviewPanel('siyuanfs.sqlResults', 'SiYuan SQL', vscode.ViewColumn.Beside, { enableScripts: true });
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+                this.result = undefined;
+            });
+            this.panel.webview.onDidReceiveMessage((message: WebviewMessage) => this.handleMessage(message));
+        }
+        this.panel.webview.html = renderResult(this.panel.webview, result);
+        this.panel.reveal(undefined, true);
+    }
+
+    private async handleMessage(message: WebviewMessage): Promise<void> {
+        try {
+            switch (message.type) {
+                case 'open':
+                    await this.openBlock(message.id);
+                    break;
+                case 'export':
+                    await this.export(message.format);
+                    break;
+                case 'save':
+                    await this.save(this.result?.stmt);
+                    break;
+            }
+        } catch (error: any) {
+            this.logger.error(`Failed to handle '${message.type}' from the SQL results`, error);
+            vscode.window.showErrorMessage(`SiYuan SQL: ${error.message}`);
+        }
+    }
+
+    private async openBlock(id: string): Promise<void> {
+        const uri = await getBlockDocumentUri(this.fs, '', id);
+        if (!uri) {
+            vscode.window.showInformationMessage(`Block ${id} is not in an open notebook`);
+            return;
+        }
+        // Document blocks have no line of their own, the document is shown either way
+        await revealBlock(this.fs, uri, id);
+    }
+
+    private async export(format: 'csv' | 'json'): Promise<void> {
+        if (!this.result) {
+            return;
+        }
+        const target = await vscode.window.showSaveDialog({
+            filters: format === 'csv' ? { CSV: ['csv'] } : { JSON: ['json'] },
+            saveLabel: 'Export'
+        });
+        if (!target) {
+            return;
+        }
+        const text = format === 'csv' ? toCsv(this.result) : JSON.stringify(this.result.rows, null, 2);
+        await vscode.workspace.fs.writeFile(target, Buffer.from(text, 'utf8'));
+        vscode.window.setStatusBarMessage(`Exported ${this.result.rows.length} rows`, 3000);
+    }
+}
+
+/**
+ * Whether a text is a single SELECT statement, the only kind run on read-only connections
+ */
+export function isSelectStatement(text: string): boolean {
+    const statements = splitStatements(text);
+    return statements.length === 1 && /^select\b/i.test(statements[0].stmt.replace(/--[^\n]*|\/\*[\s\S]*?\*\//g, '').trim());
+}
+
+/**
+ * Split an SQL file into its statements at semicolons outside of strings and comments
+ * @returns Statements with the offset of their first character
+ */
+function splitStatements(text: string): Array<{ stmt: string; offset: number }> {
+    const statements: Array<{ stmt: string; offset: number }> = [];
+    let start = 0;
+    const pushStatement = (end: number) => {
+        const raw = text.substring(start, end);
+        // Leading comments belong to the statement, but a statement of only comments is none
+        if (raw.replace(/--[^\n]*|\/\*[\s\S]*?\*\//g, '').trim()) {
+            statements.push({ stmt: raw.trim(), offset: start + raw.length - raw.trimStart().length });
+        }
+        start = end + 1;
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === "'" || char === '"' || char === '`') {
+            const close = text.indexOf(char, i + 1);
+            i = close === -1 ? text.length : close;
+        } else if (text.startsWith('--', i)) {
+            const close = text.indexOf('\n', i);
+            i = close === -1 ? text.length : close;
+        } else if (text.startsWith('/*', i)) {
+            const close = text.indexOf('*/', i + 2);
+            i = close === -1 ? text.length : close + 1;
+        } else if (char === ';') {
+            pushStatement(i);
+        }
+    }
+    pushStatement(text.length);
+    return statements;
+}
+
+function formatCell(value: unknown): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function toCsv(result: QueryResult): string {
+    const escape = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    const lines = [
+        result.columns.map(escape).join(','),
+        ...result.rows.map(row => result.columns.map(column => escape(formatCell(row[column]))).join(','))
+    ];
+    return lines.join('\r\n');
+}
+
+/**
+ * Block each row links to, taken from the first of the ID columns holding a block ID
+ */
+function getRowLinks(result: QueryResult): Array<{ column: string; id: string } | null> {
+    const columns = LINK_COLUMNS.filter(column => result.columns.includes(column));
+    return result.rows.map(row => {
+        const column = columns.find(candidate => BLOCK_ID.test(formatCell(row[candidate])));
+        return column ? { column, id: formatCell(row[column]) } : null;
+    });
+}
+
+function renderResult(webview: vscode.Webview, result: QueryResult): string {
+    const nonce = randomBytes(16).toString('base64');
+    const data = {
+        columns: result.columns,
+        rows: result.rows.map(row => result.columns.map(column => formatCell(row[column]))),
+        links: getRowLinks(result)
+    };
+    // SiYuan caps queries without a LIMIT at its search result limit, 64 unless changed in its settings
+    const note = /\blimit\b/i.test(result.stmt)
+        ? ''
+        : 'The query has no LIMIT, SiYuan returns at most as many rows as its search result limit (64 by default).';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); }
+    .toolbar { display: flex; gap: 8px; align-items: center; margin-bottom: 8px; }
+    .toolbar .count { margin-left: auto; color: var(--vscode-descriptionForeground); }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 10px; cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+    pre { white-space: pre-wrap; color: var(--vscode-descriptionForeground); margin: 0 0 8px; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border: 1px solid var(--vscode-panel-border); padding: 2px 6px; text-align: left; vertical-align: top; max-width: 480px; overflow-wrap: anywhere; }
+    th { position: sticky; top: 0; background: var(--vscode-editor-background); cursor: pointer; user-select: none; }
+    th.asc::after { content: ' ▲'; }
+    th.desc::after { content: ' ▼'; }
+    a { color: var(--vscode-textLink-foreground); cursor: pointer; }
+    .note { margin-top: 8px; color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+<pre></pre>
+<div class="toolbar">
+    <button data-action="csv">Export CSV</button>
+    <button data-action="json">Export JSON</button>
+    <button data-action="save">Save Query</button>
+    <span class="count"></span>
+</div>
+<table><thead><tr></tr></thead><tbody></tbody></table>
+<div class="note"></div>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const data = ${JSON.stringify(data).replace(/</g, '\\u003c')};
+    const stmt = ${JSON.stringify(result.stmt).replace(/</g, '\\u003c')};
+    const note = ${JSON.stringify(note)};
+    let order = data.rows.map((row, index) => index);
+    let sort = { column: -1, ascending: true };
+
+    document.querySelector('pre').textContent = stmt;
+    document.querySelector('.count').textContent = data.rows.length + (data.rows.length === 1 ? ' row' : ' rows');
+    document.querySelector('.note').textContent = note;
+    document.querySelectorAll('button').forEach(button => button.addEventListener('click', () => {
+        const action = button.dataset.action;
+        vscode.postMessage(action === 'save' ? { type: 'save' } : { type: 'export', format: action });
+    }));
+
+    const compare = (a, b) => {
+        const x = Number(a), y = Number(b);
+        return a !== '' && b !== '' && !isNaN(x) && !isNaN(y) ? x - y : a.localeCompare(b);
+    };
+
+    function renderHead() {
+        const tr = document.querySelector('thead tr');
+        tr.replaceChildren(...data.columns.map((column, index) => {
+            const th = document.createElement('th');
+            th.textContent = column;
+            th.className = sort.column === index ? (sort.ascending ? 'asc' : 'desc') : '';
+            th.addEventListener('click', () => {
+                sort = { column: index, ascending: sort.column === index ? !sort.ascending : true };
+                order.sort((a, b) => compare(data.rows[a][index], data.rows[b][index]) * (sort.ascending ? 1 : -1));
+                renderHead();
+                renderBody();
+            });
+            return th;
+        }));
+    }
+
+    function renderBody() {
+        document.querySelector('tbody').replaceChildren(...order.map(rowIndex => {
+            const tr = document.createElement('tr');
+            const link = data.links[rowIndex];
+            data.rows[rowIndex].forEach((value, index) => {
+                const td = document.createElement('td');
+                if (link && data.columns[index] === link.column) {
+                    const a = document.createElement('a');
+                    a.textContent = value;
+                    a.title = 'Open the document of this block';
+                    a.addEventListener('click', () => vscode.postMessage({ type: 'open', id: link.id }));
+                    td.appendChild(a);
+                } else {
+                    td.textContent = value;
+                }
+                tr.appendChild(td);
+            });
+            return tr;
+        }));
+    }
+
+    renderHead();
+    renderBody();
+</script>
+</body>
+</html>`;
+}
@@ -0,0 +1,56 @@
+// ABOUTME: Tests for mapping document titles to file names and back
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { decodeDocumentTitle, encodeDocumentTitle, formatNotebookName, formatSiblingNames, parseDocumentName } from '../documentNames';
+
+test('titles that aren\'t valid path segments round-trip through their encoding', () => {
+    const cases: Array<[string, string]> = [
+        ['A/B testing', 'A%2FB testing'],
+        ['.hidden', '%2Ehidden'],
+        ['..', '%2E%2E'],
+        ['trailing space ', 'trailing space%20'],
+        ['etc. ', 'etc%2E%20'],
+        ['50% off', '50%25 off'],
+        ['a:b*c?', 'a%3Ab%2Ac%3F'],
+        ['plain title', 'plain title'],
+    ];
+    for (const [title, name] of cases) {
+        assert.equal(encodeDocumentTitle(title), name);
+        assert.equal(decodeDocumentTitle(name), title);
+    }
+});
+
+test('a \'%\' typed by hand that starts no escape is kept', () => {
+    assert.equal(decodeDocumentTitle('50% off'), '50% off');
+    assert.equal(decodeDocumentTitle('100%'), '100%');
+});
+
+test('a notebook named like the assets folder stays reachable', () => {
+    assert.equal(formatNotebookName('assets'), '%61ssets');
+    assert.equal(decodeDocumentTitle(formatNotebookName('assets')), 'assets');
+    assert.equal(formatNotebookName('Assets'), 'Assets');
+});
+
+test('parseDocumentName splits off an ID suffix and decodes the title', () => {
+    assert.deepEqual(parseDocumentName('Notes (20240101120000-abcdefg)'), { title: 'Notes', id: '20240101120000-abcdefg' });
+    assert.deepEqual(parseDocumentName('A%2FB testing (20240101120000-abcdefg)'), { title: 'A/B testing', id: '20240101120000-abcdefg' });
+    assert.deepEqual(parseDocumentName('Notes (draft)'), { title: 'Notes (draft)' });
+    assert.deepEqual(parseDocumentName('A%2FB testing'), { title: 'A/B testing' });
+});
+
+test('formatSiblingNames suffixes only siblings that share a title', () => {
+    const names = formatSiblingNames([
+        { id: '20240101000000-aaaaaaa', path: '/20240101000000-parent1/20240101000000-aaaaaaa.sy', title: 'Notes' },
+        { id: '20240101000000-bbbbbbb', path: '/20240101000000-parent1/20240101000000-bbbbbbb.sy', title: 'Notes' },
+        { id: '20240101000000-ccccccc', path: '/20240101000000-parent1/20240101000000-ccccccc.sy', title: 'A/B' },
+        // Same title under another parent isn't a sibling
+        { id: '20240101000000-ddddddd', path: '/20240101000000-parent2/20240101000000-ddddddd.sy', title: 'Notes' },
+    ]);
+
+    assert.equal(names.get('20240101000000-aaaaaaa'), 'Notes (20240101000000-aaaaaaa)');
+    assert.equal(names.get('20240101000000-bbbbbbb'), 'Notes (20240101000000-bbbbbbb)');
+    assert.equal(names.get('20240101000000-ccccccc'), 'A%2FB');
+    assert.equal(names.get('20240101000000-ddddddd'), 'Notes');
+    assert.deepEqual(parseDocumentName(names.get('20240101000000-bbbbbbb')!), { title: 'Notes', id: '20240101000000-bbbbbbb' });
+});
@@ -0,0 +1,157 @@
+// ABOUTME: Tests for diffing kramdown blocks, mapping clean Markdown edits back onto them and finding inline references
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { findBlockRefs, findEmbedQueries, mergeCleanMarkdown, parseKramdown, planBlockDiff, toCleanMarkdown } from '../kramdown';
+
+const LIST = [
+    '* {: id="20240101000000-item001"}one',
+    '  {: id="20240101000000-para001"}',
+    '* {: id="20240101000000-item002"}two',
+    '  {: id="20240101000000-para002"}',
+    '* {: id="20240101000000-item003"}three',
+    '  {: id="20240101000000-para003"}',
+    '{: id="20240101000000-list001" updated="20240101000000"}',
+    '',
+    '{: id="20240101000000-docroot" type="doc"}',
+].join('\n');
+
+test('editing one list item keeps the IDs of all items', () => {
+    const edited = toCleanMarkdown(LIST).replace('two', 'two, edited');
+    const merged = mergeCleanMarkdown(LIST, edited);
+
+    assert.equal(merged.blocks.length, 1);
+    assert.equal(merged.blocks[0].id, '20240101000000-list001');
+    assert.equal(merged.blocks[0].markdown, [
+        '* {: id="20240101000000-item001"}one',
+        '  {: id="20240101000000-para001"}',
+        '* {: id="20240101000000-item002"}two, edited',
+        '  {: id="20240101000000-para002"}',
+        '* {: id="20240101000000-item003"}three',
+        '  {: id="20240101000000-para003"}',
+    ].join('\n'));
+});
+
+test('removing a list item drops only its IDs', () => {
+    const merged = mergeCleanMarkdown(LIST, '* one\n* three');
+
+    const markdown = merged.blocks[0].markdown;
+    assert.match(markdown, /item001"}one\n {2}\{: id="20240101000000-para001"}/);
+    assert.match(markdown, /item003"}three\n {2}\{: id="20240101000000-para003"}/);
+    assert.doesNotMatch(markdown, /item002|para002/);
+});
+
+test('a rewritten list item keeps its ID and a new one gets none', () => {
+    const merged = mergeCleanMarkdown(LIST, '* one\n* something else\n* three\n* four');
+
+    assert.equal(merged.blocks[0].markdown, [
+        '* {: id="20240101000000-item001"}one',
+        '  {: id="20240101000000-para001"}',
+        '* {: id="20240101000000-item002"}something else',
+        '  {: id="20240101000000-para002"}',
+        '* {: id="20240101000000-item003"}three',
+        '  {: id="20240101000000-para003"}',
+        '* four',
+    ].join('\n'));
+});
+
+test('quote children keep their IDs when the quote is edited', () => {
+    const kramdown = [
+        '> first',
+        '> {: id="20240101000000-para001"}',
+        '>',
+        '> second',
+        '> {: id="20240101000000-para002"}',
+        '{: id="20240101000000-quote01"}',
+    ].join('\n');
+    const merged = mergeCleanMarkdown(kramdown, toCleanMarkdown(kramdown).replace('second', 'second, edited'));
+
+    assert.match(merged.blocks[0].markdown, /> first\n> \{: id="20240101000000-para001"}/);
+    assert.match(merged.blocks[0].markdown, /> second, edited\n> \{: id="20240101000000-para002"}/);
+});
+
+test('the save plan updates the edited list in place', () => {
+    const merged = mergeCleanMarkdown(LIST, toCleanMarkdown(LIST).replace('two', 'two, edited'));
+    const plan = planBlockDiff(parseKramdown(LIST), merged);
+
+    assert.deepEqual(plan.deleted, []);
+    assert.equal(plan.blocks.length, 1);
+    assert.equal(plan.blocks[0].id, '20240101000000-list001');
+    assert.equal(plan.blocks[0].changed, true);
+    assert.match(plan.blocks[0].data, /item001.*item002.*item003/s);
+});
+
+const PARAGRAPHS = [
+    'first',
+    '{: id="20240101000000-block01"}',
+    '',
+    'second',
+    '{: id="20240101000000-block02"}',
+    '',
+    'third',
+    '{: id="20240101000000-block03"}',
+    '',
+    '{: id="20240101000000-docroot" type="doc"}',
+].join('\n');
+
+test('the save plan inserts new blocks and deletes removed ones', () => {
+    const edited = PARAGRAPHS.replace('second\n{: id="20240101000000-block02"}', 'new');
+    const plan = planBlockDiff(parseKramdown(PARAGRAPHS), parseKramdown(edited));
+
+    assert.deepEqual(plan.deleted, ['20240101000000-block02']);
+    assert.deepEqual(plan.blocks.map(block => [block.id, block.moved, block.changed]), [
+        ['20240101000000-block01', false, false],
+        [undefined, false, false],
+        ['20240101000000-block03', false, false],
+    ]);
+    assert.equal(plan.blocks[1].data, 'new');
+});
+
+test('the save plan moves only the blocks that left their order', () => {
+    const edited = [
+        'third',
+        '{: id="20240101000000-block03"}',
+        '',
+        'first',
+        '{: id="20240101000000-block01"}',
+        '',
+        'second, edited',
+        '{: id="20240101000000-block02"}',
+    ].join('\n');
+    const plan = planBlockDiff(parseKramdown(PARAGRAPHS), parseKramdown(edited));
+
+    assert.deepEqual(plan.deleted, []);
+    assert.deepEqual(plan.blocks.map(block => [block.id, block.moved, block.changed]), [
+        ['20240101000000-block03', true, false],
+        ['20240101000000-block01', false, false],
+        ['20240101000000-block02', false, true],
+    ]);
+});
+
+test('a repeated ID is kept once and the copy becomes a new block', () => {
+    const edited = `${PARAGRAPHS}\n\nfirst again\n{: id="20240101000000-block01"}`;
+    const plan = planBlockDiff(parseKramdown(PARAGRAPHS), parseKramdown(edited));
+
+    assert.deepEqual(plan.blocks.map(block => block.id), ['20240101000000-block01', '20240101000000-block02', '20240101000000-block03', undefined]);
+    assert.equal(plan.blocks[3].data, 'first again');
+});
+
+test('findBlockRefs finds static, dynamic and bare references with their offsets', () => {
+    const line = 'see ((20240101000000-block01 "anchor")), ((20240101000000-block02 \'dynamic\')) and ((20240101000000-block03))';
+    const refs = findBlockRefs(line);
+
+    assert.deepEqual(refs.map(ref => ref.id), ['20240101000000-block01', '20240101000000-block02', '20240101000000-block03']);
+    for (const ref of refs) {
+        assert.match(line.substring(ref.start, ref.end), /^\(\(.*\)\)$/);
+    }
+    assert.deepEqual(findBlockRefs('((not an id)) and ((20240101000000-BLOCK01))'), []);
+});
+
+test('findEmbedQueries finds embed statements and restores their newlines', () => {
+    const line = 'before {{SELECT * FROM blocks_esc_newline_WHERE content LIKE \'%todo%\'}} after {{ select id from blocks }}';
+    const embeds = findEmbedQueries(line);
+
+    assert.deepEqual(embeds.map(embed => embed.stmt), ["SELECT * FROM blocks\nWHERE content LIKE '%todo%'", 'select id from blocks']);
+    assert.equal(line.substring(embeds[0].start, embeds[0].end).startsWith('{{SELECT'), true);
+    assert.deepEqual(findEmbedQueries('{{{row'), []);
+});
@@ -0,0 +1,54 @@
+// ABOUTME: Tests for classifying SiYuan's failed responses into typed errors
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+    SiYuanAuthError,
+    SiYuanBusyError,
+    SiYuanConflictError,
+    SiYuanError,
+    SiYuanNotFoundError,
+    SiYuanReadOnlyError,
+    SiYuanUnsupportedError,
+    siyuanErrorFromResponse,
+} from '../siyuanErrors';
+
+test('failures are classified by status, envelope code and message', () => {
+    const cases: Array<[number, number | undefined, string | undefined, new (...args: any[]) => SiYuanError]> = [
+        [401, undefined, undefined, SiYuanAuthError],
+        [200, -1, 'Auth failed', SiYuanAuthError],
+        [404, undefined, '404 page not found', SiYuanUnsupportedError],
+        [403, undefined, undefined, SiYuanReadOnlyError],
+        [200, -1, 'Read-only mode', SiYuanReadOnlyError],
+        [200, 404, undefined, SiYuanNotFoundError],
+        [200, -1, 'block not found', SiYuanNotFoundError],
+        [200, -1, 'file already exists', SiYuanConflictError],
+        [200, -1, 'the data repository is syncing', SiYuanBusyError],
+    ];
+    for (const [status, code, msg, expected] of cases) {
+        const error = siyuanErrorFromResponse('/api/test', status, code, msg);
+        assert.equal(error.constructor, expected, `${status} ${code} ${msg}`);
+        assert.equal(error.endpoint, '/api/test');
+    }
+});
+
+test('an unclassified failure keeps the server\'s message and code', () => {
+    const error = siyuanErrorFromResponse('/api/test', 200, -1, 'something broke');
+
+    assert.equal(error.constructor, SiYuanError);
+    assert.equal(error.message, 'something broke');
+    assert.equal(error.code, -1);
+    assert.equal(error.fileSystemError, 'Unavailable');
+});
+
+test('a failure without message names the code or status', () => {
+    assert.equal(siyuanErrorFromResponse('/api/test', 200, 7).message, 'Request failed with code 7: /api/test');
+    assert.equal(siyuanErrorFromResponse('/api/test', 400).message, 'Request failed with HTTP 400: /api/test');
+    assert.equal(siyuanErrorFromResponse('/api/test', 400).code, 400);
+});
+
+test('typed errors map to the matching FileSystemError', () => {
+    assert.equal(siyuanErrorFromResponse('/api/test', 401).fileSystemError, 'NoPermissions');
+    assert.equal(siyuanErrorFromResponse('/api/test', 200, 404).fileSystemError, 'FileNotFound');
+    assert.equal(siyuanErrorFromResponse('/api/test', 200, 409).fileSystemError, 'FileExists');
+});
@@ -1,7 +1,8 @@
-// ABOUTME: Utility functions for error handling
+// ABOUTME: Utility functions for error handling and SQL statements
 
 import * as vscode from 'vscode';
 import { Logger } from './logger';
+import { FileSystemErrorType, SiYuanError } from './siyuanErrors';
 
 export function logAndThrow(logger: Logger, message: string): never {
   const stack = new Error().stack?.split('\n').slice(3, 8).join('\n') || 'No stack trace available';
@@ -9,7 +10,14 @@ export function logAndThrow(logger: Logger, message: string): never {
   throw new Error(message);
 }
 
-export function logAndThrowVscodeError(logger: Logger, uri: vscode.Uri, errorType: 'FileNotFound' | 'FileExists' | 'Unavailable', errorOrMessage?: string | Error): never {
+/**
+ * Log and throw a vscode.FileSystemError. Failures reported by SiYuan are thrown as the error type
+ * they map to rather than the given one, with the server's message.
+ */
+export function logAndThrowVscodeError(logger: Logger, uri: vscode.Uri, errorType: FileSystemErrorType, errorOrMessage?: string | Error): never {
+  if (errorOrMessage instanceof SiYuanError) {
+    errorType = errorOrMessage.fileSystemError;
+  }
   const errorMessage = typeof errorOrMessage === 'string' ? errorOrMessage : errorOrMessage?.message;
   const errorToLog = errorMessage || `${errorType}: ${uri.toString()}`;
 
@@ -18,10 +26,26 @@ export function logAndThrowVscodeError(logger: Logger, uri: vscode.Uri, errorTyp
 
   switch (errorType) {
     case 'FileNotFound':
-      throw vscode.FileSystemError.FileNotFound(uri);
+      throw vscode.FileSystemError.FileNotFound(errorOrMessage instanceof SiYuanError ? `${uri.path}: ${errorMessage}` : uri);
     case 'FileExists':
-      throw vscode.FileSystemError.FileExists(uri);
+      throw vscode.FileSystemError.FileExists(errorOrMessage instanceof SiYuanError ? `${uri.path}: ${errorMessage}` : uri);
+    case 'NoPermissions':
+      throw vscode.FileSystemError.NoPermissions(errorMessage || uri);
     case 'Unavailable':
       throw vscode.FileSystemError.Unavailable(errorMessage);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Escape a value for use inside a single-quoted SQL string literal
+ */
+export function escapeSqlString(value: string): string {
+  return value.replace(/'/g, "''");
+}
+
+/**
+ * Escape the wildcards of a LIKE pattern, for use with ESCAPE '\' and escapeSqlString
+ */
+export function escapeSqlLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
@@ -0,0 +1,212 @@
+// ABOUTME: File operations on plain files of the SiYuan workspace, used by the assets folder and the raw workspace scheme
+
+import * as vscode from 'vscode';
+import { SiYuanFSHttpClient } from './SiYuanFSHttpClient';
+import { WorkspaceEntry } from './siyuanApi';
+import { SiYuanError, SiYuanNotFoundError } from './siyuanErrors';
+import { Logger } from './logger';
+import { logAndThrowVscodeError } from './utils';
+
+export class WorkspaceFileSystem {
+    private logger: Logger;
+    private sizes = new Map<string, { size: number; updated: number }>(); // path -> size of the version last read or written
+
+    /**
+     * @param toWorkspacePath Maps a URI to its path below the workspace root (e.g., '/data/assets/image.png')
+     */
+    constructor(
+        private getClient: () => SiYuanFSHttpClient,
+        private fire: (...events: vscode.FileChangeEvent[]) => void,
+        private toWorkspacePath: (uri: vscode.Uri) => string
+    ) {
+        this.logger = Logger.getInstance();
+    }
+
+    async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        const path = this.toWorkspacePath(uri);
+        if (path === '/') {
+            return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 };
+        }
+
+        const entry = await this.findEntry(uri);
+        if (!entry) {
+            logAndThrowVscodeError(this.logger, uri, 'FileNotFound');
+        }
+
+        return {
+            type: entry.isDir ? vscode.FileType.Directory : vscode.FileType.File,
+            ctime: entry.updated * 1000,
+            mtime: entry.updated * 1000,
+            size: entry.isDir ? 0 : this.getSize(path, entry)
+        };
+    }
+
+    async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        try {
+            const entries = await this.getClient().listWorkspaceDir(this.toWorkspacePath(uri));
+            return entries.map(entry => [entry.name, entry.isDir ? vscode.FileType.Directory : vscode.FileType.File]);
+        } catch (error: any) {
+            if (error instanceof vscode.FileSystemError) {
+                throw error;
+            }
+            logAndThrowVscodeError(this.logger, uri, 'FileNotFound', error);
+        }
+    }
+
+    async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        const path = this.toWorkspacePath(uri);
+        try {
+            const [content, entry] = await Promise.all([this.getClient().readWorkspaceFile(path), this.findEntry(uri)]);
+            this.recordSize(path, entry, content.byteLength);
+            return content;
+        } catch (error) {
+            if (error instanceof vscode.FileSystemError) {
+                throw error;
+            }
+            logAndThrowVscodeError(this.logger, uri, 'FileNotFound', error as Error);
+        }
+    }
+
+    async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean, overwrite: boolean }): Promise<void> {
+        const path = this.toWorkspacePath(uri);
+        const entry = await this.findEntry(uri);
+
+        if (entry?.isDir) {
+            throw vscode.FileSystemError.FileIsADirectory(uri);
+        }
+        if (!entry && !options.create) {
+            logAndThrowVscodeError(this.logger, uri, 'FileNotFound');
+        }
+        if (entry && !options.overwrite) {
+            logAndThrowVscodeError(this.logger, uri, 'FileExists');
+        }
+
+        try {
+            await this.getClient().writeWorkspaceFile(path, content);
+            this.recordSize(path, await this.findEntry(uri), content.byteLength);
+            this.fire({ type: entry ? vscode.FileChangeType.Changed : vscode.FileChangeType.Created, uri });
+        } catch (error: any) {
+            logAndThrowVscodeError(this.logger, uri, 'Unavailable', error);
+        }
+    }
+
+    async delete(uri: vscode.Uri, options: { recursive: boolean }): Promise<void> {
+        const path = this.toWorkspacePath(uri);
+
+        try {
+            const entry = await this.findEntry(uri);
+            if (!entry) {
+                logAndThrowVscodeError(this.logger, uri, 'FileNotFound');
+            }
+            if (entry.isDir && !options.recursive && (await this.getClient().listWorkspaceDir(path)).length > 0) {
+                logAndThrowVscodeError(this.logger, uri, 'NoPermissions', `Directory is not empty: ${uri.path}`);
+            }
+
+            await this.getClient().deleteWorkspaceFile(path);
+            this.forgetSizes(path);
+            this.fire({ type: vscode.FileChangeType.Deleted, uri });
+        } catch (error: any) {
+            if (error instanceof vscode.FileSystemError) {
+                throw error;
+            }
+            logAndThrowVscodeError(this.logger, uri, 'Unavailable', error);
+        }
+    }
+
+    async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): Promise<void> {
+        const oldPath = this.toWorkspacePath(oldUri);
+        const newPath = this.toWorkspacePath(newUri);
+
+        try {
+            if (!await this.findEntry(oldUri)) {
+                logAndThrowVscodeError(this.logger, oldUri, 'FileNotFound');
+            }
+            if (await this.findEntry(newUri)) {
+                if (!options.overwrite) {
+                    logAndThrowVscodeError(this.logger, newUri, 'FileExists');
+                }
+                await this.getClient().deleteWorkspaceFile(newPath);
+            }
+
+            await this.getClient().renameWorkspaceFile(oldPath, newPath);
+            this.forgetSizes(oldPath);
+            this.forgetSizes(newPath);
+            this.fire(
+                { type: vscode.FileChangeType.Deleted, uri: oldUri },
+                { type: vscode.FileChangeType.Created, uri: newUri }
+            );
+        } catch (error: any) {
+            if (error instanceof vscode.FileSystemError) {
+                throw error;
+            }
+            logAndThrowVscodeError(this.logger, oldUri, 'Unavailable', error);
+        }
+    }
+
+    async createDirectory(uri: vscode.Uri): Promise<void> {
+        const path = this.toWorkspacePath(uri);
+
+        try {
+            if (path === '/' || await this.findEntry(uri)) {
+                logAndThrowVscodeError(this.logger, uri, 'FileExists');
+            }
+
+            await this.getClient().createWorkspaceDirectory(path);
+            this.fire({ type: vscode.FileChangeType.Created, uri });
+        } catch (error: any) {
+            if (error instanceof vscode.FileSystemError) {
+                throw error;
+            }
+            logAndThrowVscodeError(this.logger, uri, 'Unavailable', error);
+        }
+    }
+
+    /**
+     * Size of a file as of its last read or write. readDir doesn't report sizes and there is no
+     * endpoint to stat a single file, so other files report 0 until they are read.
+     */
+    private getSize(path: string, entry: WorkspaceEntry): number {
+        const known = this.sizes.get(path);
+        return known?.updated === entry.updated ? known.size : 0;
+    }
+
+    private recordSize(path: string, entry: WorkspaceEntry | undefined, size: number): void {
+        if (entry) {
+            this.sizes.set(path, { size, updated: entry.updated });
+        }
+    }
+
+    /**
+     * Forget the sizes of a file, or of a directory and everything in it
+     */
+    private forgetSizes(path: string): void {
+        for (const knownPath of this.sizes.keys()) {
+            if (knownPath === path || knownPath.startsWith(`${path}/`)) {
+                this.sizes.delete(knownPath);
+            }
+        }
+    }
+
+    /**
+     * Look a file up in the listing of its parent directory, there is no endpoint to stat a single file
+     * @returns The entry, or undefined when it or its parent doesn't exist
+     */
+    private async findEntry(uri: vscode.Uri): Promise<WorkspaceEntry | undefined> {
+        const path = this.toWorkspacePath(uri);
+        const parentPath = path.substring(0, path.lastIndexOf('/')) || '/';
+        const name = path.substring(path.lastIndexOf('/') + 1);
+        try {
+            const entries = await this.getClient().listWorkspaceDir(parentPath);
+            return entries.find(entry => entry.name === name);
+        } catch (error) {
+            if (error instanceof vscode.FileSystemError) {
+                throw error;
+            }
+            if (error instanceof SiYuanError && !(error instanceof SiYuanNotFoundError)) {
+                logAndThrowVscodeError(this.logger, uri, 'Unavailable', error);
+            }
+            this.logger.debug(`Cannot list ${parentPath}`, error);
+            return undefined;
+        }
+    }
+}
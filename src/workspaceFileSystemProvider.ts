@@ -0,0 +1,132 @@
+// ABOUTME: File system provider for the raw data/ and conf/ trees of the SiYuan workspace
+
+import * as vscode from 'vscode';
+import { SIYUANFS_WORKSPACE_ROOTS, SIYUANFS_WORKSPACE_SCHEME } from './constants';
+import { SiYuanFSHttpClient } from './SiYuanFSHttpClient';
+import { Logger } from './logger';
+import { logAndThrowVscodeError } from './utils';
+import { WorkspaceFileSystem } from './workspaceFileSystem';
+
+export class SiYuanWorkspaceFS implements vscode.FileSystemProvider, vscode.Disposable {
+    private logger: Logger;
+    private workspaces = new Map<string, WorkspaceFileSystem>(); // URI authority -> files of that connection
+
+    /**
+     * @param getClient Client of a connection by URI authority, shared with the document file system
+     * @param isReadOnly Whether the connection of a URI authority refuses changes
+     */
+    constructor(private getClient: (authority: string) => SiYuanFSHttpClient, private isReadOnly: (authority: string) => boolean) {
+        this.logger = Logger.getInstance();
+    }
+
+    async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        const stat = await this.files(uri).stat(uri);
+        return this.isReadOnly(uri.authority) ? { ...stat, permissions: vscode.FilePermission.Readonly } : stat;
+    }
+
+    async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        if (this.getPathFromUri(uri) === '/') {
+            return SIYUANFS_WORKSPACE_ROOTS.map(name => [name, vscode.FileType.Directory]);
+        }
+        return this.files(uri).readDirectory(uri);
+    }
+
+    readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        return this.files(uri).readFile(uri);
+    }
+
+    async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean, overwrite: boolean }): Promise<void> {
+        this.checkWritable(uri);
+        return this.files(uri).writeFile(uri, content, options);
+    }
+
+    async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): Promise<void> {
+        this.checkWritable(oldUri);
+        this.checkNotRoot(oldUri);
+        this.checkNotRoot(newUri);
+        if (oldUri.authority !== newUri.authority) {
+            logAndThrowVscodeError(this.logger, oldUri, 'NoPermissions', `Cannot move ${oldUri.path} to another connection`);
+        }
+        return this.files(oldUri).rename(oldUri, newUri, options);
+    }
+
+    async delete(uri: vscode.Uri, options: { recursive: boolean }): Promise<void> {
+        this.checkWritable(uri);
+        this.checkNotRoot(uri);
+        return this.files(uri).delete(uri, options);
+    }
+
+    async createDirectory(uri: vscode.Uri): Promise<void> {
+        this.checkWritable(uri);
+        return this.files(uri).createDirectory(uri);
+    }
+
+    private files(uri: vscode.Uri): WorkspaceFileSystem {
+        let files = this.workspaces.get(uri.authority);
+        if (!files) {
+            files = new WorkspaceFileSystem(() => this.getClient(uri.authority), (...events) => this._fireSoon(...events), fileUri => this.getPathFromUri(fileUri));
+            this.workspaces.set(uri.authority, files);
+        }
+        return files;
+    }
+
+    private checkWritable(uri: vscode.Uri): void {
+        if (this.isReadOnly(uri.authority)) {
+            logAndThrowVscodeError(this.logger, uri, 'NoPermissions', `The connection is read-only: ${uri.path}`);
+        }
+    }
+
+    /**
+     * The top-level folders are part of the workspace layout, they can't be moved or removed
+     */
+    private checkNotRoot(uri: vscode.Uri): void {
+        if (this.getPathFromUri(uri).split('/').filter(Boolean).length <= 1) {
+            logAndThrowVscodeError(this.logger, uri, 'NoPermissions', `Cannot move or delete ${uri.path}`);
+        }
+    }
+
+    /**
+     * @returns Path below the workspace root, only inside one of the exposed trees
+     */
+    private getPathFromUri(uri: vscode.Uri): string {
+        if (uri.scheme !== SIYUANFS_WORKSPACE_SCHEME) {
+            logAndThrowVscodeError(this.logger, uri, 'Unavailable', `Invalid URI scheme: ${uri.scheme}`);
+        }
+        const path = uri.path.replace(/\/+$/, '') || '/';
+        const root = path.split('/').filter(Boolean)[0];
+        if (root !== undefined && !SIYUANFS_WORKSPACE_ROOTS.includes(root)) {
+            logAndThrowVscodeError(this.logger, uri, 'FileNotFound');
+        }
+        return path;
+    }
+
+    // --- manage file events
+
+    private _emitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    private _bufferedEvents: vscode.FileChangeEvent[] = [];
+    private _fireSoonHandle?: NodeJS.Timeout;
+
+    readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._emitter.event;
+
+    watch(_uri: vscode.Uri): vscode.Disposable {
+        // Changes made on the server aren't detected, only those made through this provider are reported
+        return new vscode.Disposable(() => { });
+    }
+
+    private _fireSoon(...events: vscode.FileChangeEvent[]): void {
+        this._bufferedEvents.push(...events);
+
+        if (this._fireSoonHandle) {
+            clearTimeout(this._fireSoonHandle);
+        }
+
+        this._fireSoonHandle = setTimeout(() => {
+            this._emitter.fire(this._bufferedEvents);
+            this._bufferedEvents.length = 0;
+        }, 5);
+    }
+
+    dispose(): void {
+        this._emitter.dispose();
+    }
+}
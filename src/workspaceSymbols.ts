@@ -0,0 +1,67 @@
+// ABOUTME: Workspace symbol search (Ctrl+T) over the document titles and headings of the active connection
+
+import * as vscode from 'vscode';
+import { SIYUANFS_SCHEME } from './constants';
+import { SiYuanFS } from './siyuanFileSystemProvider';
+import { findBlockLineInDocument } from './blockNavigation';
+import { Logger } from './logger';
+
+const MAX_SYMBOLS = 200;
+
+export class SiYuanSymbolProvider implements vscode.WorkspaceSymbolProvider {
+    private logger: Logger;
+    private headings = new WeakMap<vscode.SymbolInformation, string>(); // heading symbol -> block ID, located when picked
+
+    constructor(private fs: SiYuanFS) {
+        this.logger = Logger.getInstance();
+    }
+
+    async provideWorkspaceSymbols(query: string, token: vscode.CancellationToken): Promise<vscode.SymbolInformation[]> {
+        try {
+            const matches = await this.fs.getClient('').searchTitles(query, MAX_SYMBOLS);
+            if (token.isCancellationRequested) {
+                return [];
+            }
+            return matches.map(match => {
+                const uri = vscode.Uri.from({ scheme: SIYUANFS_SCHEME, path: match.path });
+                const isDocument = match.type === 'd';
+                const location = new vscode.Location(uri, new vscode.Position(0, 0));
+                // Documents are listed under their parent's hpath, headings under their document's
+                const container = isDocument ? match.hpath.substring(0, match.hpath.lastIndexOf('/')) || '/' : match.hpath;
+                const symbol = new vscode.SymbolInformation(
+                    match.content,
+                    isDocument ? vscode.SymbolKind.File : vscode.SymbolKind.String,
+                    container,
+                    location
+                );
+                if (!isDocument) {
+                    this.headings.set(symbol, match.id);
+                }
+                return symbol;
+            });
+        } catch (error: any) {
+            this.logger.error(`Symbol search for '${query}' failed`, error);
+            return [];
+        }
+    }
+
+    /**
+     * Headings are found in their document's text only when picked, a document opens at the top
+     */
+    async resolveWorkspaceSymbol(symbol: vscode.SymbolInformation): Promise<vscode.SymbolInformation> {
+        const id = this.headings.get(symbol);
+        if (!id) {
+            return symbol;
+        }
+        try {
+            const document = await vscode.workspace.openTextDocument(symbol.location.uri);
+            const line = await findBlockLineInDocument(this.fs, document, id);
+            if (line !== undefined) {
+                symbol.location = new vscode.Location(symbol.location.uri, new vscode.Position(line, 0));
+            }
+        } catch (error: any) {
+            this.logger.warn(`Cannot locate heading ${id} in ${symbol.location.uri.path}`, error);
+        }
+        return symbol;
+    }
+}